@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, {
+  NexusErrorCode,
+  type AccessControlOptions,
+  type AccessDeniedEvent,
+} from '../index'
+import MittDriver from '../drivers/MittDriver'
+import { AccessControl } from '../core/AccessControl'
+
+describe('AccessControl', () => {
+  it('should require every applicable rule to permit the method', () => {
+    const acl = new AccessControl({
+      rules: [{ deny: ['admin.*'] }, { peer: 'widget-*', allow: ['scene.get', /^ui\./] }],
+    })
+
+    expect(acl.check('scene.set', { from: 'editor' })).toEqual({ allowed: true })
+    expect(acl.check('admin.reset', { from: 'editor' })).toEqual({ allowed: false, rule: 0 })
+    expect(acl.check('scene.get', { from: 'widget-1' })).toEqual({ allowed: true })
+    expect(acl.check('ui.toast', { from: 'widget-1' })).toEqual({ allowed: true })
+    expect(acl.check('scene.set', { from: 'widget-1' })).toEqual({ allowed: false, rule: 1 })
+  })
+
+  it('should match origins and principals', () => {
+    const acl = new AccessControl({
+      default: 'deny',
+      rules: [
+        { origin: 'https://app.example', allow: ['*'] },
+        {
+          principal: (principal) => (principal as { role: string }).role === 'admin',
+          allow: ['*'],
+        },
+      ],
+    })
+
+    expect(acl.check('files.read', { from: 'a', origin: 'https://app.example' }).allowed).toBe(true)
+    expect(acl.check('files.read', { from: 'a', principal: { role: 'admin' } }).allowed).toBe(true)
+    expect(acl.check('files.read', { from: 'a', principal: { role: 'guest' } })).toEqual({
+      allowed: false,
+    })
+    expect(acl.check('files.read', { from: 'a' })).toEqual({ allowed: false })
+  })
+
+  it('should hold senders without a principal to the deny lists of principal rules', () => {
+    const acl = new AccessControl({
+      rules: [
+        {
+          principal: (principal) => (principal as { role: string }).role !== 'admin',
+          deny: ['admin.*'],
+        },
+      ],
+    })
+
+    expect(acl.check('admin.reset', { from: 'a' })).toEqual({ allowed: false, rule: 0 })
+    expect(acl.check('admin.reset', { from: 'a', principal: { role: 'admin' } })).toEqual({
+      allowed: true,
+    })
+    expect(acl.check('scene.get', { from: 'a' })).toEqual({ allowed: true })
+  })
+})
+
+describe('Access control on MessageNexus', () => {
+  let host: MessageNexus
+  let widget: MessageNexus
+
+  const create = (accessControl: AccessControlOptions) => {
+    const emitter = mitt()
+    host = new MessageNexus(new MittDriver(emitter as any), { instanceId: 'host', accessControl })
+    widget = new MessageNexus(new MittDriver(emitter as any), { instanceId: 'widget' })
+  }
+
+  afterEach(() => {
+    host.destroy()
+    widget.destroy()
+  })
+
+  it('should reject denied requests with Forbidden before the handler runs', async () => {
+    create({ rules: [{ peer: 'widget', deny: ['admin.*'] }] })
+    const handler = vi.fn(() => 'done')
+    host.handle('admin.reset', handler)
+    host.handle('scene.get', () => 'scene')
+
+    await expect(widget.invoke({ method: 'admin.reset', to: 'host' })).rejects.toMatchObject({
+      code: NexusErrorCode.Forbidden,
+    })
+    await expect(widget.invoke({ method: 'scene.get', to: 'host' })).resolves.toBe('scene')
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should emit audit events for denied calls and notifications', async () => {
+    create({ default: 'deny', rules: [] })
+    const events: AccessDeniedEvent[] = []
+    host.onAccessDenied((event) => events.push(event))
+    const notification = vi.fn()
+    host.onNotification('admin.log', notification)
+
+    await expect(widget.invoke({ method: 'admin.reset', to: 'host' })).rejects.toMatchObject({
+      code: NexusErrorCode.Forbidden,
+    })
+    await widget.notify({ method: 'admin.log', to: 'host' })
+
+    expect(notification).not.toHaveBeenCalled()
+    expect(events).toEqual([
+      expect.objectContaining({
+        method: 'admin.reset',
+        from: 'widget',
+        messageId: expect.any(String),
+      }),
+      expect.objectContaining({ method: 'admin.log', from: 'widget', messageId: undefined }),
+    ])
+  })
+
+  it('should check calls of proxied functions like other methods', async () => {
+    create({ rules: [{ peer: 'widget', allow: ['scene.get'] }] })
+    const onChange = vi.fn()
+    widget.handle('watch', ({ onChange }: { onChange: (value: number) => Promise<void> }) =>
+      onChange(1),
+    )
+
+    await expect(
+      host.invoke({
+        method: 'watch',
+        params: { onChange: host.proxyFunction(onChange) },
+        to: 'widget',
+      }),
+    ).rejects.toMatchObject({ code: NexusErrorCode.Forbidden })
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('should evaluate principal rules against the authenticated principal', async () => {
+    const emitter = mitt()
+    host = new MessageNexus(new MittDriver(emitter as any), {
+      instanceId: 'host',
+      auth: { authenticate: (role) => ({ principal: { role } }) },
+      accessControl: {
+        rules: [
+          {
+            principal: (principal) => (principal as { role: string }).role !== 'admin',
+            deny: ['admin.*'],
+          },
+        ],
+      },
+    })
+    widget = new MessageNexus(new MittDriver(emitter as any), {
+      instanceId: 'widget',
+      auth: { getToken: () => 'guest' },
+    })
+    host.handle('admin.reset', () => 'done')
+
+    await widget.authenticate('host')
+
+    await expect(widget.invoke({ method: 'admin.reset', to: 'host' })).rejects.toMatchObject({
+      code: NexusErrorCode.Forbidden,
+    })
+  })
+})
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, {
+  NexusErrorCode,
+  type AuthOptions,
+  type HandshakeOptions,
+  type InvokeContext,
+} from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+describe('Authentication', () => {
+  let emitter: any
+  let client: MessageNexus
+  let server: MessageNexus
+  let getToken: ReturnType<typeof vi.fn>
+  let authenticate: ReturnType<typeof vi.fn>
+
+  const create = (
+    clientAuth: AuthOptions = {},
+    serverAuth: AuthOptions = {},
+    handshake: HandshakeOptions | boolean = false,
+  ) => {
+    client = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'client',
+      handshake,
+      auth: { getToken, ...clientAuth },
+    })
+    server = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'server',
+      handshake,
+      auth: { authenticate, ...serverAuth },
+    })
+  }
+
+  beforeEach(() => {
+    emitter = mitt()
+    let issued = 0
+    getToken = vi.fn(() => `token-${++issued}`)
+    authenticate = vi.fn((token: unknown) => {
+      if (typeof token !== 'string' || !token.startsWith('token-')) {
+        throw new Error('Invalid token')
+      }
+      return { principal: { user: 'alice', token } }
+    })
+  })
+
+  afterEach(() => {
+    client.destroy()
+    server.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should expose the verified principal on the handler context', async () => {
+    create()
+    const handler = vi.fn((_: unknown, context: InvokeContext) => context.auth)
+    server.handle('whoami', handler)
+
+    await expect(client.authenticate('server')).resolves.toEqual({})
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toEqual({
+      user: 'alice',
+      token: 'token-1',
+    })
+    expect(authenticate).toHaveBeenCalledWith('token-1', 'client')
+  })
+
+  it('should reject requests and drop notifications from unauthenticated peers', async () => {
+    create()
+    const notification = vi.fn()
+    server.handle('whoami', () => 'alice')
+    server.onNotification('log', notification)
+
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).rejects.toMatchObject({
+      code: NexusErrorCode.Unauthorized,
+    })
+    await client.notify({ method: 'log', to: 'server' })
+    expect(notification).not.toHaveBeenCalled()
+  })
+
+  it('should not accept requests from another sender claiming an authenticated id', async () => {
+    create()
+    server.handle('whoami', (_, context) => context.auth)
+    await client.authenticate('server')
+
+    const intruder = new MessageNexus(new MittDriver(emitter), { instanceId: 'client' })
+    await expect(intruder.invoke({ method: 'whoami', to: 'server' })).rejects.toMatchObject({
+      code: NexusErrorCode.Unauthorized,
+    })
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toMatchObject({
+      user: 'alice',
+    })
+    intruder.destroy()
+  })
+
+  it('should keep the session when another sender fails to authenticate with its id', async () => {
+    create()
+    server.handle('whoami', (_, context) => context.auth)
+    await client.authenticate('server')
+
+    const intruder = new MessageNexus(new MittDriver(emitter), { instanceId: 'client' })
+    await expect(
+      intruder.invoke({ method: '$/auth', params: { credentials: 'forged' }, to: 'server' }),
+    ).rejects.toMatchObject({ code: NexusErrorCode.Unauthorized })
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toMatchObject({
+      user: 'alice',
+    })
+    intruder.destroy()
+  })
+
+  it('should only accept a leave from the authenticated peer', async () => {
+    client = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'client',
+      presence: true,
+      auth: { getToken },
+    })
+    server = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'server',
+      presence: true,
+      auth: { authenticate },
+    })
+    const left = vi.fn()
+    server.onPeerLeave(left)
+    server.handle('whoami', (_, context) => context.auth)
+    await client.authenticate('server')
+
+    await server._handleIncoming({
+      from: 'client',
+      payload: { jsonrpc: '2.0', method: '$/presence/leave' },
+    })
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toMatchObject({
+      user: 'alice',
+    })
+    expect(left).not.toHaveBeenCalled()
+
+    client.destroy()
+    expect(left).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'client' }))
+  })
+
+  it('should authenticate with every known peer when no peer is given', async () => {
+    const createPeer = (instanceId: string, auth: AuthOptions) =>
+      new MessageNexus(new MittDriver(emitter), { instanceId, presence: true, auth })
+    client = createPeer('client', { getToken })
+    server = createPeer('server', { authenticate })
+    const other = createPeer('other', { authenticate })
+    server.handle('whoami', () => 'server')
+    other.handle('whoami', () => 'other')
+    await vi.waitFor(() => expect(client.getPeers()).toHaveLength(2))
+
+    await client.authenticate()
+
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toBe('server')
+    await expect(client.invoke({ method: 'whoami', to: 'other' })).resolves.toBe('other')
+    other.destroy()
+  })
+
+  it('should reject invalid credentials', async () => {
+    create({ getToken: () => 'forged' })
+    server.handle('whoami', () => 'alice')
+
+    await expect(client.authenticate('server')).rejects.toMatchObject({
+      code: NexusErrorCode.Unauthorized,
+      message: 'Invalid token',
+    })
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).rejects.toMatchObject({
+      code: NexusErrorCode.Unauthorized,
+    })
+  })
+
+  it('should authenticate with every peer that completes the handshake', async () => {
+    create({}, {}, true)
+    server.handle('whoami', (_, context) => context.auth)
+
+    await client.ready()
+    await vi.waitFor(() => expect(authenticate).toHaveBeenCalled())
+
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toMatchObject({
+      user: 'alice',
+    })
+  })
+
+  it('should hold queued requests until the authentication after the handshake', async () => {
+    create({}, {}, { queueUntilReady: true })
+    server.handle('whoami', (_, context) => context.auth)
+
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toMatchObject({
+      user: 'alice',
+    })
+  })
+
+  it('should ask for fresh credentials before the session expires', async () => {
+    vi.useFakeTimers()
+    authenticate.mockImplementation((token: string) => ({
+      principal: { token },
+      expiresAt: Date.now() + 10000,
+    }))
+    create({}, { refreshMargin: 2000 })
+    server.handle('whoami', (_, context) => context.auth)
+
+    await client.authenticate('server')
+    await vi.advanceTimersByTimeAsync(8000)
+
+    expect(getToken).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(5000)
+    await expect(client.invoke({ method: 'whoami', to: 'server' })).resolves.toEqual({
+      token: 'token-2',
+    })
+  })
+
+  it('should reject requests once the session expired', async () => {
+    vi.useFakeTimers()
+    authenticate.mockImplementation(() => ({ principal: 'alice', expiresAt: Date.now() + 1000 }))
+    create({}, { refreshMargin: 0 })
+    client.destroy()
+    client = new MessageNexus(new MittDriver(emitter), { instanceId: 'client' })
+    server.handle('whoami', (_, context) => context.auth)
+
+    const { session } = await client.invoke({
+      method: '$/auth',
+      params: { credentials: 'token-1' },
+      to: 'server',
+    })
+    const whoami = () =>
+      client.invoke({ method: 'whoami', to: 'server', metadata: { $session: session } })
+    await expect(whoami()).resolves.toBe('alice')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(whoami()).rejects.toMatchObject({ code: NexusErrorCode.Unauthorized })
+  })
+})
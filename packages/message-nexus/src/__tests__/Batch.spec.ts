@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode } from '../index'
+import BaseDriver from '../drivers/BaseDriver'
+import MittDriver from '../drivers/MittDriver'
+
+describe('JSON-RPC batches', () => {
+  class MockDriver extends BaseDriver {
+    send = vi.fn()
+  }
+
+  describe('caller', () => {
+    let caller: MessageNexus
+    let callee: MessageNexus
+
+    beforeEach(() => {
+      const emitter = mitt() as any
+      caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+      callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+    })
+
+    afterEach(() => {
+      caller.destroy()
+      callee.destroy()
+    })
+
+    it('should resolve every call of a batch in order', async () => {
+      const notified = vi.fn()
+      callee.handle('double', (params: any) => params * 2)
+      callee.handle('fail', () => {
+        throw new Error('Nope')
+      })
+      callee.onNotification('log', notified)
+
+      const results = await caller.batch(
+        [
+          { method: 'double', params: 2 },
+          { method: 'log', params: 'hello', notification: true },
+          { method: 'fail' },
+          { method: 'missing' },
+        ],
+        { to: 'callee' },
+      )
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: 4 })
+      expect(results[1]).toEqual({ status: 'fulfilled', value: undefined })
+      expect(results[2]).toMatchObject({ status: 'rejected', reason: { message: 'Nope' } })
+      expect(results[3]).toMatchObject({
+        status: 'rejected',
+        reason: { code: NexusErrorCode.MethodNotFound },
+      })
+      expect(notified).toHaveBeenCalledWith('hello', expect.any(Object))
+      expect(caller.getPendingTasksCount()).toBe(0)
+    })
+
+    it('should send all calls in a single envelope', async () => {
+      const sendSpy = vi.spyOn(caller.driver, 'send')
+      callee.handle('ping', () => 'pong')
+
+      await caller.batch([{ method: 'ping' }, { method: 'ping' }], { to: 'callee' })
+
+      expect(sendSpy).toHaveBeenCalledTimes(1)
+      const payload = sendSpy.mock.calls[0][0].payload as any[]
+      expect(payload).toHaveLength(2)
+      expect(payload[0]).toEqual({
+        jsonrpc: '2.0',
+        method: 'ping',
+        params: undefined,
+        id: expect.any(String),
+      })
+    })
+
+    it('should reject an empty batch without sending', async () => {
+      const sendSpy = vi.spyOn(caller.driver, 'send')
+
+      await expect(caller.batch([])).rejects.toMatchObject({
+        code: NexusErrorCode.InvalidRequest,
+      })
+      expect(sendSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('receiver', () => {
+    it('should reply with a single batched response', async () => {
+      const driver = new MockDriver()
+      const nexus = new MessageNexus(driver)
+      nexus.handle('sum', (params: any) => params.a + params.b)
+
+      await nexus._handleIncoming({
+        from: 'caller',
+        payload: [
+          { jsonrpc: '2.0', method: 'sum', params: { a: 1, b: 2 }, id: '1' },
+          { jsonrpc: '2.0', method: 'notify_only' },
+          { jsonrpc: '2.0', method: 'sum', params: { a: 3, b: 4 }, id: '2' },
+        ],
+      })
+
+      expect(driver.send).toHaveBeenCalledTimes(1)
+      expect(driver.send).toHaveBeenCalledWith({
+        from: nexus.instanceId,
+        to: 'caller',
+        payload: [
+          { jsonrpc: '2.0', id: '1', result: 3 },
+          { jsonrpc: '2.0', id: '2', result: 7 },
+        ],
+      })
+    })
+
+    it('should not reply to a notification-only batch', async () => {
+      const driver = new MockDriver()
+      const nexus = new MessageNexus(driver)
+      const handler = vi.fn()
+      nexus.onNotification('a', handler)
+
+      await nexus._handleIncoming({
+        from: 'caller',
+        payload: [
+          { jsonrpc: '2.0', method: 'a' },
+          { jsonrpc: '2.0', method: 'a' },
+        ],
+      })
+
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(driver.send).not.toHaveBeenCalled()
+    })
+
+    it('should reply with a single InvalidRequest error to an empty batch', async () => {
+      const driver = new MockDriver()
+      const nexus = new MessageNexus(driver)
+
+      await nexus._handleIncoming({ from: 'caller', payload: [] })
+
+      expect(driver.send).toHaveBeenCalledWith({
+        from: nexus.instanceId,
+        to: 'caller',
+        payload: {
+          jsonrpc: '2.0',
+          id: null,
+          error: expect.objectContaining({ code: NexusErrorCode.InvalidRequest }),
+        },
+      })
+    })
+
+    it('should answer each invalid entry with an InvalidRequest error', async () => {
+      const driver = new MockDriver()
+      const nexus = new MessageNexus(driver)
+
+      await nexus._handleIncoming({ from: 'caller', payload: [1, 2] as any })
+
+      const payload = driver.send.mock.calls[0][0].payload
+      expect(payload).toHaveLength(2)
+      payload.forEach((response: any) => {
+        expect(response.id).toBeNull()
+        expect(response.error.code).toBe(NexusErrorCode.InvalidRequest)
+      })
+    })
+  })
+})
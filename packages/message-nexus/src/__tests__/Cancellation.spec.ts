@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode } from '../index'
+import BaseDriver from '../drivers/BaseDriver'
+import MittDriver from '../drivers/MittDriver'
+
+describe('Request cancellation', () => {
+  class MockDriver extends BaseDriver {
+    send = vi.fn()
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should reject the pending invoke and send $/cancelRequest on abort', async () => {
+    const driver = new MockDriver()
+    const nexus = new MessageNexus(driver)
+    const controller = new AbortController()
+
+    const promise = nexus.invoke({ method: 'slow', to: 'peer', signal: controller.signal })
+    promise.catch(() => {})
+    await vi.advanceTimersByTimeAsync(0)
+    const id = driver.send.mock.calls[0][0].payload.id
+
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+
+    await expect(promise).rejects.toMatchObject({ code: NexusErrorCode.RequestCancelled })
+    expect(nexus.getPendingTasksCount()).toBe(0)
+    expect(driver.send).toHaveBeenLastCalledWith({
+      from: nexus.instanceId,
+      to: 'peer',
+      metadata: { timestamp: expect.any(Number) },
+      payload: { jsonrpc: '2.0', method: '$/cancelRequest', params: { id } },
+    })
+
+    nexus.destroy()
+  })
+
+  it('should not send anything when the signal is already aborted', async () => {
+    const driver = new MockDriver()
+    const nexus = new MessageNexus(driver)
+
+    const promise = nexus.invoke({ method: 'slow', signal: AbortSignal.abort() })
+
+    await expect(promise).rejects.toMatchObject({ code: NexusErrorCode.RequestCancelled })
+    expect(driver.send).not.toHaveBeenCalled()
+  })
+
+  it('should stop retrying once aborted', async () => {
+    const driver = new MockDriver()
+    const nexus = new MessageNexus(driver)
+    const controller = new AbortController()
+
+    const promise = nexus.invoke({
+      method: 'slow',
+      timeout: 100,
+      retryCount: 3,
+      retryDelay: 1000,
+      signal: controller.signal,
+    })
+    promise.catch(() => {})
+
+    await vi.advanceTimersByTimeAsync(100) // first attempt times out
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(5000)
+
+    await expect(promise).rejects.toMatchObject({ code: NexusErrorCode.RequestCancelled })
+    expect(driver.send).toHaveBeenCalledTimes(1)
+
+    nexus.destroy()
+  })
+
+  it('should abort the remote handler signal and skip the reply', async () => {
+    vi.useRealTimers()
+    const emitter = mitt() as any
+    const caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    const callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+    const calleeDriverSend = vi.spyOn(callee.driver, 'send')
+
+    let handlerSignal: AbortSignal | undefined
+    let resolveHandler: () => void = () => {}
+    callee.handle('slow', (_params, context) => {
+      handlerSignal = context.signal
+      return new Promise<string>((resolve) => {
+        resolveHandler = () => resolve('done')
+      })
+    })
+
+    const controller = new AbortController()
+    const promise = caller.invoke({ method: 'slow', to: 'callee', signal: controller.signal })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(handlerSignal?.aborted).toBe(false)
+    controller.abort()
+    await expect(promise).rejects.toMatchObject({ code: NexusErrorCode.RequestCancelled })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(handlerSignal?.aborted).toBe(true)
+
+    resolveHandler()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(calleeDriverSend).not.toHaveBeenCalled()
+
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should ignore cancellations from a different sender', async () => {
+    const driver = new MockDriver()
+    const nexus = new MessageNexus(driver)
+
+    let handlerSignal: AbortSignal | undefined
+    nexus.handle('slow', (_params, context) => {
+      handlerSignal = context.signal
+      return new Promise(() => {})
+    })
+
+    nexus._handleIncoming({
+      from: 'caller',
+      payload: { jsonrpc: '2.0', method: 'slow', id: '1' },
+    })
+    await vi.advanceTimersByTimeAsync(0)
+
+    await nexus._handleIncoming({
+      from: 'intruder',
+      payload: { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: '1' } },
+    })
+    expect(handlerSignal?.aborted).toBe(false)
+
+    nexus.destroy()
+    expect(handlerSignal?.aborted).toBe(true)
+  })
+})
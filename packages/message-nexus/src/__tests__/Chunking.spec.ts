@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode, type Message } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const isChunk = (message: Message) =>
+  !Array.isArray(message.payload) &&
+  'method' in message.payload &&
+  message.payload.method === '$/chunk'
+
+describe('Message chunking', () => {
+  let emitter: any
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'caller',
+      chunking: { chunkSize: 400 },
+    })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should split large messages and reassemble them on the receiver', async () => {
+    const send = vi.spyOn(caller.driver, 'send')
+    const handler = vi.fn((params: { text: string; at: Date }) => params.text.length)
+    callee.handle('scene.load', handler)
+    const at = new Date('2024-01-01T00:00:00.000Z')
+
+    const result = await caller.invoke({
+      method: 'scene.load',
+      params: { text: 'x'.repeat(5000), at },
+      to: 'callee',
+    })
+
+    expect(result).toBe(5000)
+    expect(handler).toHaveBeenCalledWith({ text: 'x'.repeat(5000), at }, expect.anything())
+    const frames = send.mock.calls.map(([message]) => message)
+    expect(frames.length).toBeGreaterThan(10)
+    expect(frames.every(isChunk)).toBe(true)
+  })
+
+  it('should send small messages as they are', async () => {
+    const send = vi.spyOn(caller.driver, 'send')
+    callee.handle('ping', () => 'pong')
+
+    await expect(caller.invoke({ method: 'ping', to: 'callee' })).resolves.toBe('pong')
+    expect(send.mock.calls.some(([message]) => isChunk(message))).toBe(false)
+  })
+
+  it('should not hold up small messages behind a large transfer', async () => {
+    const order: string[] = []
+    callee.handle('upload', () => order.push('upload'))
+    callee.handle('ping', () => order.push('ping'))
+
+    const upload = caller.invoke({ method: 'upload', params: 'x'.repeat(5000), to: 'callee' })
+    const ping = caller.invoke({ method: 'ping', to: 'callee' })
+    await Promise.all([upload, ping])
+
+    expect(order).toEqual(['ping', 'upload'])
+  })
+
+  it('should deliver a chunked stream value before the end of the stream', async () => {
+    caller.handleStream('dump', () => ['x'.repeat(5000), 'tail'])
+
+    const values: string[] = []
+    for await (const value of callee.stream('dump', undefined, { to: 'caller' })) {
+      values.push(value as string)
+    }
+
+    expect(values).toEqual(['x'.repeat(5000), 'tail'])
+  })
+
+  it('should reject the call when a later chunk fails to send', async () => {
+    callee.handle('upload', () => true)
+    const original = caller.driver.send.bind(caller.driver)
+    let sent = 0
+    vi.spyOn(caller.driver, 'send').mockImplementation((message) => {
+      if (++sent > 2) throw new Error('Socket closed')
+      original(message)
+    })
+
+    await expect(
+      caller.invoke({ method: 'upload', params: 'x'.repeat(1000), to: 'callee' }),
+    ).rejects.toMatchObject({ code: NexusErrorCode.SendFailed })
+  })
+})
+
+describe('Chunk reassembly limits', () => {
+  let receiver: MessageNexus
+  let handler: ReturnType<typeof vi.fn>
+
+  const chunk = (id: string, index: number, total: number, data: string): Message => ({
+    from: 'sender',
+    payload: { jsonrpc: '2.0', method: '$/chunk', params: { id, index, total, data } },
+  })
+
+  const split = (message: Message, size: number) => {
+    const encoded = JSON.stringify(message)
+    const parts = encoded.match(new RegExp(`.{1,${size}}`, 'g'))!
+    return parts.map((part, index) => chunk('t1', index, parts.length, part))
+  }
+
+  const notification: Message = {
+    from: 'sender',
+    payload: { jsonrpc: '2.0', method: 'scene.update', params: { text: 'y'.repeat(200) } },
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    receiver = new MessageNexus(new MittDriver(mitt()), {
+      instanceId: 'receiver',
+      chunking: { timeout: 1000, maxMessageSize: 150 },
+    })
+    handler = vi.fn()
+    receiver.onNotification('scene.update', handler)
+  })
+
+  afterEach(() => {
+    receiver.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should deliver chunks that arrive out of order', async () => {
+    const frames = split({ ...notification, payload: { ...notification.payload, params: {} } }, 20)
+    for (const frame of frames.reverse()) await receiver._handleIncoming(frame)
+
+    expect(handler).toHaveBeenCalledWith({}, expect.anything())
+  })
+
+  it('should drop messages larger than maxMessageSize', async () => {
+    for (const frame of split(notification, 50)) await receiver._handleIncoming(frame)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect((receiver as any).chunkAssembler.size).toBe(1)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect((receiver as any).chunkAssembler.size).toBe(0)
+  })
+
+  it('should abandon incomplete messages after the timeout', async () => {
+    await receiver._handleIncoming(chunk('t2', 0, 3, '{"from":'))
+    await vi.advanceTimersByTimeAsync(999)
+    await receiver._handleIncoming(chunk('t2', 1, 3, '"sender",'))
+    await vi.advanceTimersByTimeAsync(999)
+    expect((receiver as any).chunkAssembler.size).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect((receiver as any).chunkAssembler.size).toBe(0)
+  })
+})
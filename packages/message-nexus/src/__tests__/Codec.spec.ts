@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { jsonCodec, extendedJsonCodec, msgpackCodec } from '../index'
+
+describe('Codecs', () => {
+  describe('jsonCodec', () => {
+    it('should round-trip plain JSON and decode binary frames', () => {
+      const value = { a: [1, 'two', null, true], b: { c: 1.5 } }
+      const encoded = jsonCodec.encode(value) as string
+
+      expect(jsonCodec.decode(encoded)).toEqual(value)
+      expect(jsonCodec.decode(new TextEncoder().encode(encoded).buffer)).toEqual(value)
+    })
+  })
+
+  describe('extendedJsonCodec', () => {
+    const roundTrip = (value: unknown) => extendedJsonCodec.decode(extendedJsonCodec.encode(value))
+
+    it('should round-trip rich types', () => {
+      const value = {
+        date: new Date('2024-05-01T12:00:00.000Z'),
+        map: new Map<unknown, unknown>([
+          ['a', 1],
+          [2, new Set(['x'])],
+        ]),
+        set: new Set([1, 2]),
+        big: 12345678901234567890n,
+        missing: undefined,
+        special: [NaN, Infinity, -Infinity, -0],
+        pattern: /ab+c/gi,
+        bytes: new Uint8Array([1, 2, 3]),
+        floats: new Float64Array([1.5, -2]),
+        buffer: new Uint16Array([258]).buffer,
+      }
+
+      const decoded = roundTrip(value) as typeof value
+
+      expect(decoded).toEqual(value)
+      expect(decoded.date).toBeInstanceOf(Date)
+      expect(decoded.floats).toBeInstanceOf(Float64Array)
+      expect('missing' in decoded).toBe(true)
+      expect(Object.is(decoded.special[3], -0)).toBe(true)
+    })
+
+    it('should keep objects that use the tag key unchanged', () => {
+      const value = { $type: 'Date', value: 'not a date' }
+
+      expect(roundTrip(value)).toEqual(value)
+    })
+
+    it('should reject circular structures and unknown tags', () => {
+      const circular: Record<string, unknown> = {}
+      circular.self = circular
+
+      expect(() => extendedJsonCodec.encode(circular)).toThrow(TypeError)
+      expect(() => extendedJsonCodec.decode('{"$type":"Nope"}')).toThrow(TypeError)
+    })
+  })
+
+  describe('msgpackCodec', () => {
+    const roundTrip = (value: unknown) => msgpackCodec.decode(msgpackCodec.encode(value))
+
+    it('should produce MessagePack bytes', () => {
+      expect(Array.from(msgpackCodec.encode({ a: 1 }) as Uint8Array)).toEqual([
+        0x81, 0xa1, 0x61, 0x01,
+      ])
+      expect(Array.from(msgpackCodec.encode([-1, 200, 'hi']) as Uint8Array)).toEqual([
+        0x93, 0xff, 0xcc, 0xc8, 0xa2, 0x68, 0x69,
+      ])
+    })
+
+    it('should round-trip numbers of every width', () => {
+      const numbers = [0, 127, 128, 65535, 65536, 2 ** 32 - 1, 2 ** 40, -32, -33, -129, -40000]
+      const others = [-(2 ** 31), -(2 ** 31) - 1, 1.5, -0, NaN, Infinity]
+
+      expect(roundTrip(numbers)).toEqual(numbers)
+      expect(roundTrip(others)).toEqual(others)
+      expect(roundTrip([2n ** 63n, -(2n ** 63n)])).toEqual([2n ** 63n, -(2n ** 63n)])
+    })
+
+    it('should round-trip nested envelopes, binary data and dates', () => {
+      const value = {
+        from: 'a',
+        payload: {
+          jsonrpc: '2.0',
+          id: 'x',
+          result: { text: 'é'.repeat(300), items: Array(20).fill(1) },
+        },
+        bytes: new Uint8Array(300).fill(7),
+        at: new Date('1969-07-20T20:17:40.123Z'),
+        map: new Map([[1, 'one']]),
+      }
+
+      const decoded = roundTrip(value) as typeof value
+
+      expect(decoded).toEqual(value)
+      expect(decoded.bytes).toBeInstanceOf(Uint8Array)
+      expect(decoded.map).toBeInstanceOf(Map)
+    })
+
+    it('should leave out properties holding undefined, like JSON', () => {
+      const decoded = roundTrip({ from: 'a', to: undefined, list: [undefined] })
+
+      expect(decoded).toEqual({ from: 'a', list: [null] })
+      expect('to' in (decoded as object)).toBe(false)
+    })
+
+    it('should reject truncated and malformed input', () => {
+      const encoded = msgpackCodec.encode({ text: 'hello world' }) as Uint8Array
+
+      expect(() => msgpackCodec.decode(encoded.slice(0, -3))).toThrow(RangeError)
+      expect(() => msgpackCodec.decode(new Uint8Array([0xc1]))).toThrow(TypeError)
+      expect(() => msgpackCodec.decode(new Uint8Array([0x01, 0x02]))).toThrow(RangeError)
+    })
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { gzipCompressor, createStreamCompressor, type Message } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const isCompressed = (message: Message) =>
+  !Array.isArray(message.payload) &&
+  'method' in message.payload &&
+  message.payload.method === '$/compressed'
+
+describe('Message compression', () => {
+  let emitter: any
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'caller',
+      compression: { threshold: 256 },
+    })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should compress large messages and restore them on the receiver', async () => {
+    const send = vi.spyOn(caller.driver, 'send')
+    const handler = vi.fn((params: { text: string; at: Date }) => params.text.length)
+    callee.handle('scene.load', handler)
+    const at = new Date('2024-01-01T00:00:00.000Z')
+
+    const result = await caller.invoke({
+      method: 'scene.load',
+      params: { text: 'x'.repeat(5000), at },
+      to: 'callee',
+    })
+
+    expect(result).toBe(5000)
+    expect(handler).toHaveBeenCalledWith({ text: 'x'.repeat(5000), at }, expect.anything())
+    const [frame] = send.mock.calls[0]
+    expect(isCompressed(frame)).toBe(true)
+    expect(frame.metadata?.compression).toBe('gzip')
+  })
+
+  it('should send messages below the threshold as they are', async () => {
+    const send = vi.spyOn(caller.driver, 'send')
+    callee.handle('ping', () => 'pong')
+
+    await expect(caller.invoke({ method: 'ping', to: 'callee' })).resolves.toBe('pong')
+    expect(send.mock.calls.some(([message]) => isCompressed(message))).toBe(false)
+  })
+
+  it('should report bytes before and after compression', async () => {
+    callee.handle('upload', () => true)
+
+    await caller.invoke({ method: 'upload', params: 'x'.repeat(5000), to: 'callee' })
+
+    const metrics = caller.getMetrics()
+    expect(metrics.bytesBeforeCompression).toBeGreaterThan(5000)
+    expect(metrics.bytesAfterCompression).toBeGreaterThan(0)
+    expect(metrics.bytesAfterCompression).toBeLessThan(metrics.bytesBeforeCompression)
+  })
+
+  it('should work together with chunking', async () => {
+    caller.destroy()
+    caller = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'caller',
+      compression: { threshold: 256 },
+      chunking: { chunkSize: 400 },
+    })
+    callee.handle('upload', (params: number[]) => params.length)
+    const params = Array.from({ length: 2000 }, (_, i) => (i * 7919) % 1000)
+
+    await expect(caller.invoke({ method: 'upload', params, to: 'callee' })).resolves.toBe(2000)
+  })
+
+  it('should keep messages in order when only some are compressed', async () => {
+    const received: number[] = []
+    callee.onNotification('scene.patch', ({ seq }: { seq: number }) => received.push(seq))
+
+    caller.notify({ method: 'scene.patch', params: { seq: 1, text: 'x'.repeat(5000) } })
+    await caller.notify({ method: 'scene.patch', params: { seq: 2 } })
+    await vi.waitFor(() => expect(received).toHaveLength(2))
+
+    expect(received).toEqual([1, 2])
+  })
+
+  it('should use a custom compressor on both ends', async () => {
+    const compressor = createStreamCompressor('deflate-raw')
+    caller.destroy()
+    callee.destroy()
+    caller = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'caller',
+      compression: { threshold: 256, compressor },
+    })
+    callee = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'callee',
+      compression: { compressor },
+    })
+    const send = vi.spyOn(caller.driver, 'send')
+    callee.handle('upload', (params: string) => params.length)
+
+    await expect(
+      caller.invoke({ method: 'upload', params: 'x'.repeat(5000), to: 'callee' }),
+    ).resolves.toBe(5000)
+    expect(send.mock.calls[0][0].metadata?.compression).toBe('deflate-raw')
+  })
+})
+
+describe('Decompression limits', () => {
+  let receiver: MessageNexus
+  let handler: ReturnType<typeof vi.fn>
+
+  const compressed = async (message: Message, compression = 'gzip'): Promise<Message> => {
+    const data = await gzipCompressor.compress(new TextEncoder().encode(JSON.stringify(message)))
+    return {
+      from: 'sender',
+      metadata: { compression },
+      payload: {
+        jsonrpc: '2.0',
+        method: '$/compressed',
+        params: { data: btoa(String.fromCharCode(...data)) },
+      },
+    }
+  }
+
+  const notification = (text: string): Message => ({
+    from: 'sender',
+    payload: { jsonrpc: '2.0', method: 'scene.update', params: { text } },
+  })
+
+  beforeEach(() => {
+    receiver = new MessageNexus(new MittDriver(mitt()), {
+      instanceId: 'receiver',
+      compression: { maxDecompressedSize: 1000 },
+    })
+    handler = vi.fn()
+    receiver.onNotification('scene.update', handler)
+  })
+
+  afterEach(() => {
+    receiver.destroy()
+  })
+
+  it('should deliver messages within maxDecompressedSize', async () => {
+    await receiver._handleIncoming(await compressed(notification('y'.repeat(500))))
+
+    expect(handler).toHaveBeenCalledWith({ text: 'y'.repeat(500) }, expect.anything())
+  })
+
+  it('should drop messages that inflate beyond maxDecompressedSize', async () => {
+    await receiver._handleIncoming(await compressed(notification('y'.repeat(100000))))
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should handle messages in arrival order while a frame is decompressed', async () => {
+    const frame = await compressed(notification('first'))
+
+    const first = receiver._handleIncoming(frame)
+    const second = receiver._handleIncoming(notification('second'))
+    await Promise.all([first, second])
+
+    expect(handler.mock.calls.map(([params]) => params.text)).toEqual(['first', 'second'])
+  })
+
+  it('should drop messages with an unknown compression', async () => {
+    await receiver._handleIncoming(await compressed(notification('y'), 'brotli'))
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode, type StandardSchema } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const withJsonSchema = (jsonSchema: Record<string, unknown>): StandardSchema => ({
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => ({ value }),
+    jsonSchema: { input: () => jsonSchema, output: () => jsonSchema },
+  } as StandardSchema['~standard'],
+})
+
+describe('Method discovery', () => {
+  let emitter: any
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'callee',
+      discovery: { title: 'Editor API', version: '2.1.0' },
+    })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should describe registered handlers as an OpenRPC document', async () => {
+    callee.handle('user.get', () => null, {
+      description: 'Loads a user',
+      paramsSchema: withJsonSchema({ type: 'object', required: ['id'] }),
+      resultSchema: withJsonSchema({ type: 'object' }),
+    })
+    callee.handle('ping', () => 'pong')
+    callee.handleStream('logs.tail', function* () {})
+    callee.handle('files.*', () => null)
+
+    const document = await caller.discover('callee')
+
+    expect(document.openrpc).toBe('1.3.2')
+    expect(document.info).toEqual({ title: 'Editor API', version: '2.1.0' })
+    expect(document.methods).toEqual([
+      {
+        name: 'logs.tail',
+        paramStructure: 'by-position',
+        params: [{ name: 'params', required: false, schema: {} }],
+        result: { name: 'result', schema: {} },
+        'x-stream': true,
+      },
+      {
+        name: 'ping',
+        paramStructure: 'by-position',
+        params: [{ name: 'params', required: false, schema: {} }],
+        result: { name: 'result', schema: {} },
+      },
+      {
+        name: 'user.get',
+        description: 'Loads a user',
+        paramStructure: 'by-position',
+        params: [{ name: 'params', required: true, schema: { type: 'object', required: ['id'] } }],
+        result: { name: 'result', schema: { type: 'object' } },
+      },
+    ])
+  })
+
+  it('should forget the description when a handler is removed', async () => {
+    const dispose = callee.handle('ping', () => 'pong', { description: 'Health check' })
+    dispose()
+
+    const document = await caller.discover('callee')
+
+    expect(document.methods).toEqual([])
+  })
+
+  it('should let a registered rpc.discover handler replace the built-in one', async () => {
+    callee.handle('rpc.discover', () => ({ custom: true }))
+
+    await expect(caller.discover('callee')).resolves.toEqual({ custom: true })
+  })
+
+  it('should reply MethodNotFound when discovery is disabled', async () => {
+    const hidden = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'hidden',
+      discovery: false,
+    })
+
+    await expect(caller.discover('hidden')).rejects.toMatchObject({
+      code: NexusErrorCode.MethodNotFound,
+    })
+    hidden.destroy()
+  })
+})
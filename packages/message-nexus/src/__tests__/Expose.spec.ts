@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest'
+import MessageNexus from '../index'
+import BaseDriver from '../drivers/BaseDriver'
+import { getPublicMethodNames } from '../utils/service'
+
+class MockDriver extends BaseDriver {
+  send = vi.fn()
+}
+
+class BaseService {
+  ping() {
+    return 'pong'
+  }
+}
+
+class UserService extends BaseService {
+  private users = new Map([[1, 'alice']])
+  prefix = 'user'
+
+  get size() {
+    return this.users.size
+  }
+
+  getUser(params: { id: number }) {
+    return `${this.prefix}:${this.users.get(params.id)}`
+  }
+
+  whoCalled(_params: unknown, context: { from: string }) {
+    return context.from
+  }
+
+  _internal() {
+    return 'hidden'
+  }
+}
+
+const request = (method: string, params?: unknown) => ({
+  from: 'caller',
+  payload: { jsonrpc: '2.0' as const, method, params, id: '1' },
+})
+
+describe('expose', () => {
+  it('should collect public methods of the class and only opt-in inherited ones', () => {
+    expect(getPublicMethodNames(new UserService()).sort()).toEqual(['getUser', 'whoCalled'])
+    expect(getPublicMethodNames(new UserService(), true).sort()).toEqual([
+      'getUser',
+      'ping',
+      'whoCalled',
+    ])
+  })
+
+  it('should not expose methods of built-in base classes', () => {
+    class Emitter extends EventTarget {
+      start() {}
+    }
+
+    expect(getPublicMethodNames(new Emitter())).toEqual(['start'])
+  })
+
+  it('should register namespaced handlers bound to the service', async () => {
+    const driver = new MockDriver()
+    const nexus = new MessageNexus(driver)
+
+    nexus.expose('users', new UserService())
+
+    expect(nexus.hasHandler('users.getUser')).toBe(true)
+    expect(nexus.hasHandler('users.ping')).toBe(false)
+    expect(nexus.hasHandler('users._internal')).toBe(false)
+    expect(nexus.hasHandler('users.size')).toBe(false)
+
+    await nexus._handleIncoming(request('users.getUser', { id: 1 }))
+    expect(driver.send.mock.calls[0][0].payload.result).toBe('user:alice')
+  })
+
+  it('should pass the InvokeContext as trailing argument', async () => {
+    const driver = new MockDriver()
+    const nexus = new MessageNexus(driver)
+
+    nexus.expose('users', new UserService())
+    await nexus._handleIncoming(request('users.whoCalled'))
+
+    expect(driver.send.mock.calls[0][0].payload.result).toBe('caller')
+  })
+
+  it('should honor include and exclude', () => {
+    const nexus = new MessageNexus(new MockDriver())
+
+    nexus.expose('a', new UserService(), { include: ['getUser', 'ping'], exclude: ['ping'] })
+
+    expect(nexus.getHandlersCount()).toBe(1)
+    expect(nexus.hasHandler('a.getUser')).toBe(true)
+  })
+
+  it('should expose inherited methods when listed or with inherited', () => {
+    const nexus = new MessageNexus(new MockDriver())
+
+    nexus.expose('a', new UserService(), { include: ['ping'] })
+    nexus.expose('b', new UserService(), { inherited: true })
+
+    expect(nexus.hasHandler('a.ping')).toBe(true)
+    expect(nexus.hasHandler('b.ping')).toBe(true)
+  })
+
+  it('should expose plain objects and remove everything with the disposer', () => {
+    const nexus = new MessageNexus(new MockDriver())
+
+    const dispose = nexus.expose('math', {
+      add: ({ a, b }: { a: number; b: number }) => a + b,
+      sub: ({ a, b }: { a: number; b: number }) => a - b,
+      version: 1,
+    })
+    expect(nexus.getHandlersCount()).toBe(2)
+
+    dispose()
+    expect(nexus.getHandlersCount()).toBe(0)
+  })
+})
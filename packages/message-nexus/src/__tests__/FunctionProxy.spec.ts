@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('Function proxying', () => {
+  let emitter: any
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should call a marked function back on the caller', async () => {
+    const onItem = vi.fn((item: string) => item.toUpperCase())
+    callee.handle('each', async (params: any) => {
+      const results = []
+      for (const item of params.items) {
+        results.push(await params.onItem(item))
+      }
+      return results
+    })
+
+    const result = await caller.invoke({
+      method: 'each',
+      params: { items: ['a', 'b'], onItem: caller.proxyFunction(onItem) },
+      to: 'callee',
+    })
+
+    expect(result).toEqual(['A', 'B'])
+    expect(onItem).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not modify the params object passed to invoke', async () => {
+    callee.handle('noop', () => null)
+    const params = { nested: { callback: caller.proxyFunction(() => 1) } }
+    const callback = params.nested.callback
+
+    await caller.invoke({ method: 'noop', params, to: 'callee' })
+
+    expect(params.nested.callback).toBe(callback)
+  })
+
+  it('should proxy unmarked functions when proxyFunctions is enabled', async () => {
+    const auto = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'auto',
+      proxyFunctions: true,
+    })
+    callee.handle('apply', (params: any) => params.fn(params.value))
+
+    await expect(
+      auto.invoke({
+        method: 'apply',
+        params: { value: 2, fn: (value: number) => value * 10 },
+        to: 'callee',
+      }),
+    ).resolves.toBe(20)
+
+    auto.destroy()
+  })
+
+  it('should return callable functions from handlers', async () => {
+    let count = 0
+    callee.handle('counter', () => ({ increment: callee.proxyFunction(() => ++count) }))
+
+    const counter = (await caller.invoke({ method: 'counter', to: 'callee' })) as any
+
+    await expect(counter.increment()).resolves.toBe(1)
+    await expect(counter.increment()).resolves.toBe(2)
+  })
+
+  it('should reject with the error thrown by the remote function', async () => {
+    callee.handle('run', (params: any) => params.task())
+
+    await expect(
+      caller.invoke({
+        method: 'run',
+        params: {
+          task: caller.proxyFunction(() => {
+            throw new Error('Task failed')
+          }),
+        },
+        to: 'callee',
+      }),
+    ).rejects.toThrow('Task failed')
+  })
+
+  it('should release references when the holder is destroyed', async () => {
+    let stored: (() => Promise<unknown>) | undefined
+    callee.handle('subscribe', (params: any) => {
+      stored = params.listener
+      return true
+    })
+
+    await caller.invoke({
+      method: 'subscribe',
+      params: { listener: caller.proxyFunction(() => 'event') },
+      to: 'callee',
+    })
+    await expect(stored!()).resolves.toBe('event')
+    expect((caller as any).callbacks.localSize).toBe(1)
+
+    callee.destroy()
+    await flush()
+
+    expect((caller as any).callbacks.localSize).toBe(0)
+  })
+
+  it('should reject calls to unknown references with InvalidParams', async () => {
+    await expect(
+      caller.invoke({ method: '$/callback', params: { ref: 'missing', args: [] }, to: 'callee' }),
+    ).rejects.toMatchObject({ code: NexusErrorCode.InvalidParams })
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+describe('Peer handshake', () => {
+  const instances: MessageNexus[] = []
+  const emitter = mitt() as any
+
+  const create = (instanceId: string, options: Record<string, unknown> = {}) => {
+    const nexus = new MessageNexus(new MittDriver(emitter), { instanceId, ...options })
+    instances.push(nexus)
+    return nexus
+  }
+
+  afterEach(() => {
+    instances.forEach((nexus) => nexus.destroy())
+    instances.length = 0
+    vi.useRealTimers()
+  })
+
+  it('should resolve ready() with the peer info', async () => {
+    const host = create('host', { handshake: { capabilities: ['scene'] } })
+    create('guest', { handshake: true })
+
+    await expect(host.ready()).resolves.toEqual({
+      instanceId: 'guest',
+      protocolVersion: 1,
+      capabilities: expect.arrayContaining(['stream', 'batch']),
+    })
+  })
+
+  it('should announce custom capabilities', async () => {
+    const host = create('host', { handshake: { capabilities: ['scene'] } })
+    const guest = create('guest')
+
+    const peer = await guest.whenPeerReady('host')
+
+    expect(peer.capabilities).toContain('scene')
+    await expect(host.ready()).resolves.toMatchObject({ instanceId: 'guest' })
+  })
+
+  it('should keep saying hello until a late peer answers', async () => {
+    vi.useFakeTimers()
+    const host = create('host', { handshake: { retryInterval: 100 } })
+    const ready = host.ready()
+
+    await vi.advanceTimersByTimeAsync(250)
+    create('guest')
+    await vi.advanceTimersByTimeAsync(100)
+
+    await expect(ready).resolves.toMatchObject({ instanceId: 'guest' })
+  })
+
+  it('should hold outbound messages until the handshake completes', async () => {
+    vi.useFakeTimers()
+    const host = create('host', { handshake: { queueUntilReady: true, retryInterval: 100 } })
+    const result = host.invoke({ method: 'ping', to: 'guest' })
+
+    expect(host.getQueueLength()).toBe(1)
+
+    const guest = create('guest')
+    guest.handle('ping', () => 'pong')
+    await vi.advanceTimersByTimeAsync(100)
+
+    await expect(result).resolves.toBe('pong')
+    expect(host.getQueueLength()).toBe(0)
+  })
+
+  it('should answer requests while holding outbound messages', async () => {
+    const host = create('host', { handshake: { queueUntilReady: true } })
+    host.handle('ping', () => 'pong')
+    const send = vi.spyOn(host.driver, 'send')
+
+    await host._handleIncoming({
+      from: 'guest',
+      to: 'host',
+      payload: { jsonrpc: '2.0', id: '1', method: 'ping' },
+    })
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'guest',
+        payload: expect.objectContaining({ result: 'pong' }),
+      }),
+    )
+    expect(host.getQueueLength()).toBe(0)
+  })
+
+  it('should complete the handshake when messages are sealed', async () => {
+    const security = { keys: [{ id: 'k1', secret: 'shared secret' }] }
+    const host = create('host', { security, handshake: { queueUntilReady: true } })
+    const guest = create('guest', { security, handshake: { queueUntilReady: true } })
+    guest.handle('ping', () => 'pong')
+
+    await expect(host.invoke({ method: 'ping', to: 'guest' })).resolves.toBe('pong')
+    expect(host.getQueueLength()).toBe(0)
+  })
+
+  it('should wait for the requested peer only', async () => {
+    const host = create('host')
+    const waiting = vi.fn()
+    host.whenPeerReady('second').then(waiting)
+
+    create('first', { handshake: true })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(waiting).not.toHaveBeenCalled()
+
+    create('second', { handshake: true })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(waiting).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'second' }))
+  })
+
+  it('should forget peers that leave until they say hello again', async () => {
+    const host = create('host', { handshake: true })
+    const guest = create('guest', { handshake: true })
+    await host.whenPeerReady('guest')
+
+    guest.destroy()
+    const ready = vi.fn()
+    host.whenPeerReady('guest').then(ready)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(ready).not.toHaveBeenCalled()
+
+    create('guest', { handshake: true })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(ready).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'guest' }))
+  })
+
+  it('should hold messages and say hello again once the last peer left', async () => {
+    vi.useFakeTimers()
+    const host = create('host', { handshake: { queueUntilReady: true, retryInterval: 100 } })
+    const guest = create('guest', { handshake: true })
+    await host.whenPeerReady('guest')
+    guest.destroy()
+
+    const result = host.invoke({ method: 'ping', to: 'guest' })
+    expect(host.getQueueLength()).toBe(1)
+
+    create('guest').handle('ping', () => 'pong')
+    await vi.advanceTimersByTimeAsync(100)
+
+    await expect(result).resolves.toBe('pong')
+  })
+
+  it('should ignore peers with an incompatible protocol version', async () => {
+    const host = create('host')
+    const send = vi.spyOn(host.driver, 'send')
+    const ready = vi.fn()
+    host.whenPeerReady('legacy').then(ready, () => {})
+    send.mockClear()
+
+    await host._handleIncoming({
+      from: 'legacy',
+      payload: { jsonrpc: '2.0', method: '$/hello', params: { protocolVersion: 0 } },
+    })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(send).not.toHaveBeenCalled()
+    expect(ready).not.toHaveBeenCalled()
+  })
+
+  it('should reject pending ready() calls on destroy', async () => {
+    const host = create('host')
+    const ready = host.ready()
+
+    host.destroy()
+
+    await expect(ready).rejects.toMatchObject({ code: NexusErrorCode.InstanceDestroyed })
+  })
+})
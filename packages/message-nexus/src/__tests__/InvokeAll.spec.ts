@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { LogLevel, NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+describe('invokeAll', () => {
+  let emitter: any
+  let caller: MessageNexus
+  let tabs: MessageNexus[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    tabs = ['tab-1', 'tab-2', 'tab-3'].map(
+      (instanceId) => new MessageNexus(new MittDriver(emitter), { instanceId }),
+    )
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    tabs.forEach((tab) => tab.destroy())
+    vi.useRealTimers()
+  })
+
+  it('should gather the responses of every peer until the timeout', async () => {
+    tabs.forEach((tab) => tab.handle('getTitle', () => `Title of ${tab.instanceId}`))
+
+    const promise = caller.invokeAll('getTitle', undefined, { timeout: 100 })
+    await vi.advanceTimersByTimeAsync(100)
+    const responses = await promise
+
+    expect(responses).toHaveLength(3)
+    expect(responses).toEqual(
+      expect.arrayContaining([
+        { from: 'tab-1', result: 'Title of tab-1' },
+        { from: 'tab-2', result: 'Title of tab-2' },
+        { from: 'tab-3', result: 'Title of tab-3' },
+      ]),
+    )
+    expect(caller.getPendingTasksCount()).toBe(0)
+  })
+
+  it('should resolve early once maxResponses arrived', async () => {
+    tabs.forEach((tab) => tab.handle('ping', () => 'pong'))
+
+    const responses = await caller.invokeAll('ping', undefined, { timeout: 60000, maxResponses: 2 })
+
+    expect(responses).toHaveLength(2)
+    expect(caller.getPendingTasksCount()).toBe(0)
+  })
+
+  it('should return handler errors as entries', async () => {
+    tabs[0].handle('save', () => true)
+    tabs[1].handle('save', () => {
+      throw new Error('Disk full')
+    })
+
+    const promise = caller.invokeAll('save', undefined, { timeout: 100 })
+    await vi.advanceTimersByTimeAsync(100)
+    const responses = await promise
+
+    expect(responses).toContainEqual({ from: 'tab-1', result: true })
+    expect(responses).toContainEqual({
+      from: 'tab-2',
+      error: expect.objectContaining({ message: 'Disk full' }),
+    })
+    expect(responses).toContainEqual({
+      from: 'tab-3',
+      error: expect.objectContaining({ code: NexusErrorCode.MethodNotFound }),
+    })
+  })
+
+  it('should reject with Timeout when fewer than minResponses answered', async () => {
+    tabs[0].handle('vote', () => 'yes')
+    tabs[1].destroy()
+    tabs[2].destroy()
+
+    const promise = caller.invokeAll('vote', undefined, { timeout: 100, minResponses: 2 })
+    promise.catch(() => {})
+    await vi.advanceTimersByTimeAsync(100)
+
+    await expect(promise).rejects.toMatchObject({
+      code: NexusErrorCode.Timeout,
+      data: { responses: [{ from: 'tab-1', result: 'yes' }] },
+    })
+  })
+
+  it('should not log later responses as orphaned', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const gatherer = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'gatherer',
+      logger,
+      loggerEnabled: true,
+      logLevel: LogLevel.DEBUG,
+    })
+    tabs.forEach((tab) => tab.handle('ping', () => 'pong'))
+
+    const promise = gatherer.invokeAll('ping', undefined, { timeout: 100 })
+    await vi.advanceTimersByTimeAsync(100)
+    await promise
+
+    expect(logger.warn).not.toHaveBeenCalledWith('Orphaned response received', expect.anything())
+    gatherer.destroy()
+  })
+})
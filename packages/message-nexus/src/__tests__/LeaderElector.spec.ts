@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { LeaderElector, NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const options = { heartbeatInterval: 100, electionTimeout: 300 }
+
+describe('LeaderElector', () => {
+  let emitter: any
+  let nexuses: MessageNexus[]
+  let electors: LeaderElector[]
+
+  const createTab = (instanceId: string) => {
+    const nexus = new MessageNexus(new MittDriver(emitter), { instanceId })
+    const elector = new LeaderElector(nexus, options)
+    nexuses.push(nexus)
+    electors.push(elector)
+    return { nexus, elector }
+  }
+
+  const leaders = () => electors.filter((elector) => elector.isLeader)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    emitter = mitt()
+    nexuses = []
+    electors = []
+  })
+
+  afterEach(() => {
+    electors.forEach((elector) => elector.close())
+    nexuses.forEach((nexus) => nexus.destroy())
+    vi.useRealTimers()
+  })
+
+  it('should elect a lone instance', async () => {
+    const { elector } = createTab('tab-a')
+    const onChange = vi.fn()
+    elector.onLeadershipChange(onChange)
+    const elected = elector.whenLeader()
+
+    await vi.advanceTimersByTimeAsync(600)
+
+    await expect(elected).resolves.toBeUndefined()
+    expect(elector.isLeader).toBe(true)
+    expect(elector.leaderId).toBe('tab-a')
+    expect(onChange).toHaveBeenCalledWith(true, 1)
+  })
+
+  it('should elect exactly one leader among several instances', async () => {
+    createTab('tab-a')
+    createTab('tab-b')
+    createTab('tab-c')
+
+    await vi.advanceTimersByTimeAsync(2000)
+
+    expect(leaders()).toHaveLength(1)
+    const leaderId = leaders()[0].leaderId
+    electors.forEach((elector) => expect(elector.leaderId).toBe(leaderId))
+  })
+
+  it('should hand over quickly when the leader closes', async () => {
+    createTab('tab-a')
+    createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+    const [leader] = leaders()
+    const follower = electors.find((elector) => elector !== leader)!
+    const term = follower.term
+
+    leader.close()
+    await vi.advanceTimersByTimeAsync(150)
+
+    expect(follower.isLeader).toBe(true)
+    expect(follower.term).toBe(term + 1)
+  })
+
+  it('should re-elect when the leader goes silent', async () => {
+    createTab('tab-a')
+    createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+    const leaderIndex = electors.findIndex((elector) => elector.isLeader)
+    const follower = electors[1 - leaderIndex]
+
+    vi.spyOn(nexuses[leaderIndex].driver, 'send').mockImplementation(() => {})
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(follower.isLeader).toBe(true)
+  })
+
+  it('should resolve split brain after a partition heals', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+
+    // Partition: neither side hears the other, so the follower elects itself for a newer term
+    const [leader] = leaders()
+    const follower = electors.find((elector) => elector !== leader)!
+    const sends = [a.nexus, b.nexus].map((nexus) =>
+      vi.spyOn(nexus.driver, 'send').mockImplementation(() => {}),
+    )
+    await vi.advanceTimersByTimeAsync(600)
+    expect(leaders()).toHaveLength(2)
+
+    sends.forEach((send) => send.mockRestore())
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(leaders()).toEqual([follower])
+    expect(leader.leaderId).toBe(follower.leaderId)
+    expect(leader.term).toBe(follower.term)
+  })
+
+  it('should ignore elections with a different name', async () => {
+    const { nexus } = createTab('tab-a')
+    const other = new LeaderElector(nexus, { ...options, name: 'sync' })
+    createTab('tab-b')
+
+    await vi.advanceTimersByTimeAsync(2000)
+
+    expect(other.isLeader).toBe(true)
+    expect(leaders()).toHaveLength(1)
+    other.close()
+  })
+
+  it('should reject whenLeader() when closed', async () => {
+    const { elector } = createTab('tab-a')
+    const elected = elector.whenLeader()
+
+    elector.close()
+
+    await expect(elected).rejects.toMatchObject({ code: NexusErrorCode.InstanceDestroyed })
+  })
+})
@@ -106,7 +106,15 @@ describe('MessageNexus', () => {
 
       expect(handler).toHaveBeenCalledWith(
         { data: 'test' },
-        { messageId: 'test-id', from: 'sender', to: undefined, metadata: undefined },
+        {
+          messageId: 'test-id',
+          method: 'TEST_COMMAND',
+          from: 'sender',
+          to: undefined,
+          metadata: undefined,
+          signal: expect.any(AbortSignal),
+          reportProgress: expect.any(Function),
+        },
       )
 
       expect(sendSpy).toHaveBeenCalledWith({
@@ -257,7 +265,7 @@ describe('MessageNexus', () => {
 
       expect(handler).toHaveBeenCalledWith(
         { data: 'test' },
-        { from: 'sender', to: undefined, metadata: undefined },
+        { method: 'TEST_NOTIFY', from: 'sender', to: undefined, metadata: undefined },
       )
 
       unregister()
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import MessageNexus, { NexusRouter, NexusErrorCode, MessagePortDriver } from '../index'
+import BaseDriver, { type Message } from '../drivers/BaseDriver'
+
+class FakeDriver extends BaseDriver {
+  send = vi.fn()
+
+  receive(message: Message) {
+    this.onMessage?.(message)
+  }
+}
+
+const request = (from: string, to: string | undefined, method: string, id = '1'): Message => ({
+  from,
+  to,
+  payload: { jsonrpc: '2.0', method, id },
+})
+
+describe('NexusRouter', () => {
+  let router: NexusRouter
+  let iframe: FakeDriver
+  let server: FakeDriver
+  let worker: FakeDriver
+
+  beforeEach(() => {
+    router = new NexusRouter()
+    iframe = new FakeDriver()
+    server = new FakeDriver()
+    worker = new FakeDriver()
+    router.attach('iframe', iframe)
+    router.attach('server', server)
+    router.attach('worker', worker)
+  })
+
+  afterEach(() => {
+    router.destroy()
+  })
+
+  it('should flood messages to unknown recipients and count hops', () => {
+    iframe.receive(request('editor', 'backend', 'load'))
+
+    expect(server.send).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'editor', to: 'backend', metadata: { hops: 1 } }),
+    )
+    expect(worker.send).toHaveBeenCalledTimes(1)
+    expect(iframe.send).not.toHaveBeenCalled()
+  })
+
+  it('should learn routes from the from field', () => {
+    server.receive(request('backend', undefined, 'hello'))
+    iframe.receive(request('editor', 'backend', 'load'))
+
+    expect(router.getRoutes()).toEqual({ backend: 'server', editor: 'iframe' })
+    expect(server.send).toHaveBeenCalledTimes(1)
+    expect(worker.send).toHaveBeenCalledTimes(1) // only the flooded hello
+  })
+
+  it('should drop messages that exceeded maxHops', () => {
+    const shortRouter = new NexusRouter({ maxHops: 2 })
+    const a = new FakeDriver()
+    const b = new FakeDriver()
+    shortRouter.attach('a', a)
+    shortRouter.attach('b', b)
+
+    a.receive({ ...request('x', undefined, 'ping'), metadata: { hops: 1 } })
+    a.receive({ ...request('x', undefined, 'ping'), metadata: { hops: 2 } })
+
+    expect(b.send).toHaveBeenCalledTimes(1)
+    expect(b.send).toHaveBeenCalledWith(expect.objectContaining({ metadata: { hops: 2 } }))
+    shortRouter.destroy()
+  })
+
+  it('should answer requests denied by an inbound policy', () => {
+    router.detach('iframe')
+    router.attach('iframe', iframe, { inbound: { allow: ['scene.*'] } })
+
+    iframe.receive(request('editor', 'backend', 'admin.drop', '7'))
+
+    expect(server.send).not.toHaveBeenCalled()
+    expect(iframe.send).toHaveBeenCalledWith({
+      from: 'backend',
+      to: 'editor',
+      payload: expect.objectContaining({
+        id: '7',
+        error: expect.objectContaining({ code: NexusErrorCode.MethodNotFound }),
+      }),
+    })
+  })
+
+  it('should filter each boundary with its outbound policy', () => {
+    router.detach('worker')
+    router.attach('worker', worker, { outbound: { deny: [/^secret\./] } })
+
+    iframe.receive({ from: 'editor', payload: { jsonrpc: '2.0', method: 'secret.key' } })
+    iframe.receive({ from: 'editor', payload: { jsonrpc: '2.0', method: 'scene.update' } })
+
+    expect(server.send).toHaveBeenCalledTimes(2)
+    expect(worker.send).toHaveBeenCalledTimes(1)
+    expect(worker.send).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: expect.objectContaining({ method: 'scene.update' }) }),
+    )
+  })
+
+  it('should forward the allowed entries of a batch', () => {
+    router.detach('iframe')
+    router.attach('iframe', iframe, { inbound: (method) => method !== 'blocked' })
+    server.receive(request('backend', undefined, 'hello'))
+
+    iframe.receive({
+      from: 'editor',
+      to: 'backend',
+      payload: [
+        { jsonrpc: '2.0', method: 'allowed', id: 'a' },
+        { jsonrpc: '2.0', method: 'blocked', id: 'b' },
+      ],
+    })
+
+    expect(server.send).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: [{ jsonrpc: '2.0', method: 'allowed', id: 'a' }] }),
+    )
+    expect(iframe.send).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: [expect.objectContaining({ id: 'b' })] }),
+    )
+  })
+
+  it('should drop invalid batch entries before applying the policy', () => {
+    router.detach('iframe')
+    router.attach('iframe', iframe, { inbound: { deny: ['blocked'] } })
+
+    iframe.receive({
+      from: 'editor',
+      payload: [1, null, { jsonrpc: '2.0', method: 'allowed' }] as any,
+    })
+    iframe.receive({ from: 'editor', payload: [1, null] as any })
+
+    expect(server.send).toHaveBeenCalledTimes(1)
+    expect(server.send).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: [{ jsonrpc: '2.0', method: 'allowed' }] }),
+    )
+    expect(iframe.send).not.toHaveBeenCalled()
+  })
+
+  it('should drop wrapped frames on drivers with a policy', () => {
+    router.detach('iframe')
+    router.attach('iframe', iframe, { inbound: { allow: ['scene.*'] } })
+    const frame = (from: string, method: string): Message => ({
+      from,
+      payload: { jsonrpc: '2.0', method, params: { data: '' } },
+    })
+
+    iframe.receive(frame('editor', '$/compressed'))
+    iframe.receive(frame('editor', '$/secure'))
+    worker.receive(frame('renderer', '$/compressed'))
+
+    expect(server.send).toHaveBeenCalledTimes(1)
+    expect(server.send).toHaveBeenCalledWith(expect.objectContaining({ from: 'renderer' }))
+  })
+
+  it('should always let responses through', () => {
+    router.detach('server')
+    router.attach('server', server, { inbound: { allow: [] } })
+
+    server.receive({
+      from: 'backend',
+      to: 'editor',
+      payload: { jsonrpc: '2.0', id: '1', result: 1 },
+    })
+
+    expect(iframe.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop forwarding detached drivers', () => {
+    router.detach('worker')
+
+    iframe.receive(request('editor', undefined, 'ping'))
+
+    expect(worker.send).not.toHaveBeenCalled()
+    expect(worker.onMessage).toBeNull()
+  })
+
+  it('should connect two nexus instances end to end', async () => {
+    const left = new MessageChannel()
+    const right = new MessageChannel()
+    const bridge = new NexusRouter()
+    bridge.attach('left', new MessagePortDriver(left.port2))
+    bridge.attach('right', new MessagePortDriver(right.port2))
+
+    const editor = new MessageNexus(new MessagePortDriver(left.port1), { instanceId: 'editor' })
+    const backend = new MessageNexus(new MessagePortDriver(right.port1), { instanceId: 'backend' })
+    backend.handle('add', ({ a, b }: any) => a + b)
+
+    await expect(
+      editor.invoke({ method: 'add', params: { a: 1, b: 2 }, to: 'backend' }),
+    ).resolves.toBe(3)
+
+    editor.destroy()
+    backend.destroy()
+    bridge.destroy()
+  })
+})
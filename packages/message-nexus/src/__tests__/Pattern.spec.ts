@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { matchesPattern } from '../utils/pattern'
+
+describe('matchesPattern', () => {
+  it.each([
+    ['scene.get', 'scene.get', true],
+    ['scene.get', 'scene.getAll', false],
+    ['scene.*', 'scene.camera', true],
+    ['scene.*', 'scene.camera.position', true],
+    ['scene.*', 'scene', false],
+    ['*.camera', 'scene.camera', true],
+    ['*', 'anything.at.all', true],
+    ['widget-*', 'widget-1', true],
+    ['https://*.example.com', 'https://app.example.com', true],
+    ['https://*.example.com', 'https://example.com', false],
+    ['a*b*c', 'abc', true],
+    ['a*b*c', 'aXbYbZc', true],
+    ['a*b*c', 'acb', false],
+    ['ab*ba', 'aba', false],
+  ])('%s matches %s: %s', (pattern, value, expected) => {
+    expect(matchesPattern(value, pattern)).toBe(expected)
+  })
+
+  it('should test regular expressions against the value', () => {
+    expect(matchesPattern('ui.toast', /^ui\./)).toBe(true)
+    expect(matchesPattern('scene.get', /^ui\./)).toBe(false)
+  })
+})
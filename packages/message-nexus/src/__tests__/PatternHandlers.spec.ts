@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusError, NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+describe('Pattern and default handlers', () => {
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    const emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should pass the called method to pattern handlers', async () => {
+    callee.handle('files.*', (params, context) => `${context.method}:${params}`)
+
+    await expect(
+      caller.invoke({ method: 'files.read', params: 'a.txt', to: 'callee' }),
+    ).resolves.toBe('files.read:a.txt')
+  })
+
+  it('should reply through the default handler instead of MethodNotFound', async () => {
+    const dispose = callee.setDefaultHandler((_params, context) => {
+      throw new NexusError(`Unsupported: ${context.method}`, NexusErrorCode.MethodNotFound, {
+        hint: 'try files.*',
+      })
+    })
+
+    await expect(caller.invoke({ method: 'unknown', to: 'callee' })).rejects.toMatchObject({
+      message: 'Unsupported: unknown',
+      data: { hint: 'try files.*' },
+    })
+
+    dispose()
+    await expect(caller.invoke({ method: 'unknown', to: 'callee' })).rejects.toMatchObject({
+      code: NexusErrorCode.MethodNotFound,
+      message: 'Method not found: unknown',
+    })
+  })
+
+  it('should deliver every application notification to a catch-all handler', async () => {
+    const received = vi.fn()
+    callee.onNotification('*', (_params, context) => received(context.method))
+
+    caller.notify({ method: 'scene.update', params: {}, to: 'callee' })
+    caller.notify({ method: 'user.login', params: {}, to: 'callee' })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(received.mock.calls.map(([method]) => method)).toEqual(['scene.update', 'user.login'])
+  })
+})
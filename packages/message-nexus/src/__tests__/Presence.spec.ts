@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const heartbeat = (from: string, metadata: Record<string, unknown> = {}) => ({
+  from,
+  payload: { jsonrpc: '2.0', method: '$/presence/heartbeat', params: { metadata } },
+})
+
+describe('Presence', () => {
+  let emitter: any
+  let alice: MessageNexus
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    emitter = mitt()
+    alice = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'alice',
+      presence: { interval: 100, metadata: { title: 'Editor' } },
+    })
+  })
+
+  afterEach(() => {
+    alice.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should discover peers and their metadata', async () => {
+    const joined = vi.fn()
+    alice.onPeerJoin(joined)
+
+    const bob = new MessageNexus(new MittDriver(emitter), {
+      instanceId: 'bob',
+      presence: { interval: 100, metadata: { title: 'Preview' } },
+    })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(alice.getPeers()).toEqual([
+      expect.objectContaining({ instanceId: 'bob', metadata: { title: 'Preview' } }),
+    ])
+    expect(bob.getPeers()).toEqual([
+      expect.objectContaining({ instanceId: 'alice', metadata: { title: 'Editor' } }),
+    ])
+    expect(joined).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'bob' }))
+
+    bob.destroy()
+  })
+
+  it('should report peers that leave on destroy', async () => {
+    const left = vi.fn()
+    alice.onPeerLeave(left)
+    const bob = new MessageNexus(new MittDriver(emitter), { instanceId: 'bob', presence: true })
+    await vi.advanceTimersByTimeAsync(0)
+
+    bob.destroy()
+
+    expect(left).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'bob' }))
+    expect(alice.getPeers()).toEqual([])
+  })
+
+  it('should evict peers that stop sending heartbeats', async () => {
+    const left = vi.fn()
+    alice.onPeerLeave(left)
+    await alice._handleIncoming(heartbeat('ghost'))
+    expect(alice.getPeers()).toHaveLength(1)
+
+    await vi.advanceTimersByTimeAsync(250)
+    expect(left).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(200)
+    expect(left).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'ghost' }))
+    expect(alice.getPeers()).toEqual([])
+  })
+
+  it('should reject pending requests addressed to a departed peer', async () => {
+    await alice._handleIncoming(heartbeat('ghost'))
+    const request = alice.invoke({ method: 'slow', to: 'ghost', timeout: 60000 })
+    const other = alice.invoke({ method: 'slow', to: 'someone-else', timeout: 60000 })
+    other.catch(() => {})
+
+    await alice._handleIncoming({
+      from: 'ghost',
+      payload: { jsonrpc: '2.0', method: '$/presence/leave' },
+    })
+
+    await expect(request).rejects.toMatchObject({ code: NexusErrorCode.PeerDisconnected })
+    expect(alice.getPendingTasksCount()).toBe(1)
+  })
+
+  it('should return no peers when presence is disabled', async () => {
+    const plain = new MessageNexus(new MittDriver(emitter), { instanceId: 'plain' })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(plain.getPeers()).toEqual([])
+    plain.destroy()
+  })
+})
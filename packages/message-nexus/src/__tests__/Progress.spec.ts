@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus from '../index'
+import BaseDriver from '../drivers/BaseDriver'
+import MittDriver from '../drivers/MittDriver'
+
+describe('Progress reporting', () => {
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    const emitter = mitt() as any
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should deliver progress reports to onProgress', async () => {
+    callee.handle('load', async (_params, context) => {
+      context.reportProgress?.(0.5, 'half way')
+      context.reportProgress?.(1)
+      return 'loaded'
+    })
+
+    const onProgress = vi.fn()
+    const result = await caller.invoke({ method: 'load', to: 'callee', onProgress })
+
+    expect(result).toBe('loaded')
+    expect(onProgress).toHaveBeenNthCalledWith(1, 0.5, 'half way')
+    expect(onProgress).toHaveBeenNthCalledWith(2, 1, undefined)
+    expect(caller.getMetrics().progressReceived).toBe(2)
+  })
+
+  it('should keep a slow but reporting handler from timing out', async () => {
+    callee.handle('slow', async (_params, context) => {
+      for (let i = 0; i < 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 80))
+        context.reportProgress?.(i)
+      }
+      await new Promise((resolve) => setTimeout(resolve, 80))
+      return 'done'
+    })
+
+    const promise = caller.invoke({
+      method: 'slow',
+      to: 'callee',
+      timeout: 100,
+      onProgress: () => {},
+    })
+    await vi.advanceTimersByTimeAsync(320)
+
+    await expect(promise).resolves.toBe('done')
+  })
+
+  it('should not send progress frames when the caller did not ask for them', async () => {
+    const driver = new (class extends BaseDriver {
+      send = vi.fn()
+    })()
+    const nexus = new MessageNexus(driver)
+    nexus.handle('load', (_params, context) => {
+      context.reportProgress?.(0.5)
+      return 'loaded'
+    })
+
+    await nexus._handleIncoming({
+      from: 'caller',
+      payload: { jsonrpc: '2.0', method: 'load', id: '1' },
+    })
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+    expect(driver.send.mock.calls[0][0].payload).toEqual({
+      jsonrpc: '2.0',
+      id: '1',
+      result: 'loaded',
+    })
+  })
+
+  it('should not treat a `progress` key in application metadata as a request for reports', async () => {
+    const driver = new (class extends BaseDriver {
+      send = vi.fn()
+    })()
+    const nexus = new MessageNexus(driver)
+    nexus.handle('load', (_params, context) => {
+      context.reportProgress?.(0.5)
+      return 'loaded'
+    })
+
+    await nexus._handleIncoming({
+      from: 'caller',
+      metadata: { progress: true },
+      payload: { jsonrpc: '2.0', method: 'load', id: '1' },
+    })
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+    expect(driver.send.mock.calls[0][0].payload).toMatchObject({ id: '1', result: 'loaded' })
+  })
+
+  it('should ignore progress for unknown requests', async () => {
+    await caller._handleIncoming({
+      from: 'callee',
+      payload: { jsonrpc: '2.0', method: '$/progress', params: { id: 'unknown', value: 1 } },
+    })
+
+    expect(caller.getMetrics().progressReceived).toBe(0)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus from '../index'
+import MittDriver from '../drivers/MittDriver'
+import { matchTopic } from '../utils/topic'
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const publishedTo = (send: { mock: { calls: any[][] } }) =>
+  send.mock.calls
+    .map(([message]) => message)
+    .filter((message) => message.payload.method === '$/pubsub/publish')
+    .map((message) => message.to)
+
+describe('matchTopic', () => {
+  it.each([
+    ['scene.*', 'scene.camera', true],
+    ['scene.*', 'scene.camera.position', false],
+    ['scene.*', 'scene', false],
+    ['scene.#', 'scene', true],
+    ['scene.#', 'scene.camera.position', true],
+    ['*.camera', 'scene.camera', true],
+    ['#', 'anything.at.all', true],
+    ['scene.camera', 'scene.light', false],
+  ])('%s matches %s: %s', (pattern, topic, expected) => {
+    expect(matchTopic(pattern, topic)).toBe(expected)
+  })
+})
+
+describe('Topic pub/sub', () => {
+  let emitter: any
+  let publisher: MessageNexus
+  let subscriber: MessageNexus
+
+  beforeEach(() => {
+    emitter = mitt()
+    publisher = new MessageNexus(new MittDriver(emitter), { instanceId: 'publisher' })
+    subscriber = new MessageNexus(new MittDriver(emitter), { instanceId: 'subscriber' })
+  })
+
+  afterEach(() => {
+    publisher.destroy()
+    subscriber.destroy()
+  })
+
+  it('should deliver publications matching a wildcard subscription', async () => {
+    const handler = vi.fn()
+    subscriber.subscribe('scene.*', handler)
+    await flush()
+
+    await publisher.publish('scene.camera', { zoom: 2 })
+    await publisher.publish('scene.camera.position', { x: 1 })
+    await publisher.publish('user.login', {})
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith(
+      { zoom: 2 },
+      { topic: 'scene.camera', from: 'publisher', retained: false },
+    )
+  })
+
+  it('should only send to peers with a matching subscription', async () => {
+    subscriber.subscribe('scene.#', () => {})
+    await flush()
+    const send = vi.spyOn(publisher.driver, 'send')
+
+    await publisher.publish('user.login', {})
+    expect(publishedTo(send)).toEqual([])
+
+    await publisher.publish('scene.light.color', 'red')
+    expect(publishedTo(send)).toEqual(['subscriber'])
+  })
+
+  it('should stop sending after the last handler unsubscribes', async () => {
+    const first = subscriber.subscribe('scene.*', () => {})
+    const second = subscriber.subscribe('scene.*', () => {})
+    await flush()
+    const send = vi.spyOn(publisher.driver, 'send')
+
+    first()
+    await publisher.publish('scene.camera', 1)
+    expect(publishedTo(send)).toEqual(['subscriber'])
+
+    second()
+    await flush()
+    await publisher.publish('scene.camera', 2)
+    expect(publishedTo(send)).toEqual(['subscriber'])
+  })
+
+  it('should stop sending to subscribers that were destroyed', async () => {
+    subscriber.subscribe('scene.*', () => {})
+    await flush()
+    const send = vi.spyOn(publisher.driver, 'send')
+
+    subscriber.destroy()
+    await flush()
+    await publisher.publish('scene.camera', 1)
+
+    expect(publishedTo(send)).toEqual([])
+  })
+
+  it('should learn subscriptions that existed before the publisher', async () => {
+    const handler = vi.fn()
+    subscriber.subscribe('news', handler)
+    const late = new MessageNexus(new MittDriver(emitter), { instanceId: 'late' })
+
+    // The first publish asks peers for their subscriptions
+    await late.publish('news', 'first')
+    await flush()
+    await late.publish('news', 'second')
+
+    expect(handler).toHaveBeenCalledWith('second', expect.objectContaining({ from: 'late' }))
+    late.destroy()
+  })
+
+  it('should replay retained values to late subscribers', async () => {
+    await publisher.publish('config.theme', 'dark', { retain: true })
+    await publisher.publish('config.lang', 'en', { retain: true })
+    await publisher.publish('config.lang', 'fr', { retain: true })
+
+    const handler = vi.fn()
+    subscriber.subscribe('config.*', handler)
+    await flush()
+
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(handler).toHaveBeenCalledWith('dark', {
+      topic: 'config.theme',
+      from: 'publisher',
+      retained: true,
+    })
+    expect(handler).toHaveBeenCalledWith('fr', expect.objectContaining({ topic: 'config.lang' }))
+  })
+
+  it('should clear a retained value when publishing undefined', async () => {
+    await publisher.publish('config.theme', 'dark', { retain: true })
+    await publisher.publish('config.theme', undefined, { retain: true })
+
+    const handler = vi.fn()
+    subscriber.subscribe('config.theme', handler)
+    await flush()
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should deliver to local subscribers', async () => {
+    const handler = vi.fn()
+    publisher.subscribe('local.event', handler)
+
+    await publisher.publish('local.event', 42)
+
+    expect(handler).toHaveBeenCalledWith(42, expect.objectContaining({ from: 'publisher' }))
+  })
+
+  it('should reject invalid patterns and topics', async () => {
+    expect(() => subscriber.subscribe('scene.#.camera', () => {})).toThrow(TypeError)
+    expect(() => subscriber.subscribe('scene..camera', () => {})).toThrow(TypeError)
+    await expect(publisher.publish('scene.*', 1)).rejects.toThrow(TypeError)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+type Api = {
+  'user.get': { params: { id: number }; result: { id: number; name: string } }
+  'user.settings.theme': { result: string }
+  ping: { result: 'pong' }
+}
+
+describe('createProxy', () => {
+  let caller: MessageNexus<Api>
+  let callee: MessageNexus<Api>
+
+  beforeEach(() => {
+    const emitter = mitt() as any
+    caller = new MessageNexus<Api>(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus<Api>(new MittDriver(emitter), { instanceId: 'callee' })
+    callee.handle('user.get', ({ id }) => ({ id, name: `user-${id}` }))
+    callee.handle('user.settings.theme', () => 'dark')
+    callee.handle('ping', () => 'pong')
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should map nested property calls to dotted methods', async () => {
+    const api = caller.createProxy({ to: 'callee' })
+
+    await expect(api.user.get({ id: 7 })).resolves.toEqual({ id: 7, name: 'user-7' })
+    await expect(api.user.settings.theme()).resolves.toBe('dark')
+    await expect(api.ping()).resolves.toBe('pong')
+  })
+
+  it('should merge default and per-call options into invoke', async () => {
+    const invokeSpy = vi.spyOn(caller, 'invoke')
+    const api = caller.createProxy({ to: 'callee', timeout: 1000 })
+
+    await api.user.get({ id: 1 }, { timeout: 500 })
+
+    expect(invokeSpy).toHaveBeenCalledWith({
+      to: 'callee',
+      timeout: 500,
+      method: 'user.get',
+      params: { id: 1 },
+    })
+  })
+
+  it('should not be thenable', async () => {
+    const api = caller.createProxy()
+
+    expect((api.user as any).then).toBeUndefined()
+    const namespace = await Promise.resolve(api.user)
+    expect(typeof namespace.get).toBe('function')
+  })
+
+  it('should throw when calling the proxy root', () => {
+    const api = caller.createProxy() as any
+
+    expect(() => api()).toThrow('Remote proxy root is not callable')
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode, type StandardSchema } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+// Minimal Standard Schema implementation standing in for zod/valibot
+const object = <T extends Record<string, 'string' | 'number'>>(
+  shape: T,
+): StandardSchema<unknown, { [K in keyof T]: T[K] extends 'string' ? string : number }> => ({
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      if (!value || typeof value !== 'object') {
+        return { issues: [{ message: 'Expected object' }] }
+      }
+      const issues = Object.entries(shape)
+        .filter(([key, type]) => typeof (value as any)[key] !== type)
+        .map(([key, type]) => ({ message: `Expected ${type}`, path: [{ key }] }))
+      return issues.length > 0 ? { issues } : { value: value as any }
+    },
+  },
+})
+
+describe('Schema validation', () => {
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    const emitter = mitt()
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should reject invalid params with InvalidParams and the issues', async () => {
+    const handler = vi.fn()
+    callee.handle('user.get', handler, { paramsSchema: object({ id: 'number' }) })
+
+    await expect(
+      caller.invoke({ method: 'user.get', params: { id: '1' }, to: 'callee' }),
+    ).rejects.toMatchObject({
+      code: NexusErrorCode.InvalidParams,
+      message: 'Invalid params for user.get: Expected number',
+      data: { issues: [{ message: 'Expected number', path: ['id'] }] },
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should pass the schema output to the handler', async () => {
+    const schema: StandardSchema<unknown, { id: number }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async (value) => ({ value: { id: Number((value as any).id) } }),
+      },
+    }
+    callee.handle('user.get', (params: any) => params.id + 1, { paramsSchema: schema })
+
+    await expect(
+      caller.invoke({ method: 'user.get', params: { id: '41' }, to: 'callee' }),
+    ).resolves.toBe(42)
+  })
+
+  it('should reply with InternalError when the handler result is invalid', async () => {
+    callee.handle('user.get', () => ({ name: 42 }), { resultSchema: object({ name: 'string' }) })
+
+    await expect(caller.invoke({ method: 'user.get', to: 'callee' })).rejects.toMatchObject({
+      code: NexusErrorCode.InternalError,
+      data: { issues: [{ path: ['name'] }] },
+    })
+  })
+
+  it('should validate params before sending', async () => {
+    const send = vi.spyOn(caller.driver, 'send')
+
+    await expect(
+      caller.invoke({
+        method: 'user.get',
+        params: 'not an object',
+        to: 'callee',
+        paramsSchema: object({ id: 'number' }),
+      }),
+    ).rejects.toMatchObject({ code: NexusErrorCode.InvalidParams })
+    expect(send).not.toHaveBeenCalled()
+  })
+
+  it('should validate the received result', async () => {
+    callee.handle('user.get', () => ({ name: 42 }))
+
+    await expect(
+      caller.invoke({
+        method: 'user.get',
+        to: 'callee',
+        resultSchema: object({ name: 'string' }),
+      }),
+    ).rejects.toMatchObject({
+      code: NexusErrorCode.InvalidResponse,
+      data: { issues: [{ message: 'Expected string', path: ['name'] }] },
+    })
+  })
+})
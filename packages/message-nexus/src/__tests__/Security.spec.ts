@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { type Message, type SecurityOptions } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const keys = [{ id: 'k1', secret: 'correct horse battery staple' }]
+
+describe('Envelope security', () => {
+  let emitter: any
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  const create = (instanceId: string, security: SecurityOptions) =>
+    new MessageNexus(new MittDriver(emitter), { instanceId, security })
+
+  beforeEach(() => {
+    emitter = mitt()
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should sign messages and accept them on a peer with the same key', async () => {
+    caller = create('caller', { keys })
+    callee = create('callee', { keys })
+    const send = vi.spyOn(caller.driver, 'send')
+    callee.handle('add', ({ a, b }: { a: number; b: number }) => a + b)
+
+    await expect(
+      caller.invoke({ method: 'add', params: { a: 1, b: 2 }, to: 'callee' }),
+    ).resolves.toBe(3)
+
+    const [frame] = send.mock.calls[0]
+    expect(frame.payload).toMatchObject({ method: '$/secure', params: { kid: 'k1' } })
+    expect((frame.payload as any).params.data).toContain('"add"')
+  })
+
+  it('should encrypt payloads when enabled', async () => {
+    caller = create('caller', { keys, encrypt: true })
+    callee = create('callee', { keys, encrypt: true })
+    const send = vi.spyOn(caller.driver, 'send')
+    callee.handle('echo', (text: string) => text)
+
+    await expect(
+      caller.invoke({ method: 'echo', params: 'top secret', to: 'callee' }),
+    ).resolves.toBe('top secret')
+
+    const params = (send.mock.calls[0][0].payload as any).params
+    expect(params.iv).toEqual(expect.any(String))
+    expect(atob(params.data)).not.toContain('top secret')
+  })
+
+  it('should keep working across a key rotation', async () => {
+    const next = { id: 'k2', secret: 'a brand new secret' }
+    caller = create('caller', { keys })
+    callee = create('callee', { keys: [...keys, next] })
+    callee.handle('ping', () => 'pong')
+
+    caller.setSecurityKeys([next, ...keys])
+    await expect(caller.invoke({ method: 'ping', to: 'callee' })).resolves.toBe('pong')
+
+    callee.setSecurityKeys([next])
+    await expect(caller.invoke({ method: 'ping', to: 'callee' })).resolves.toBe('pong')
+  })
+})
+
+describe('Rejecting messages', () => {
+  let sender: MessageNexus
+  let receiver: MessageNexus
+  let handler: ReturnType<typeof vi.fn>
+  let frames: Message[]
+
+  const sendFrame = async (params: unknown = { x: 1 }) => {
+    await sender.notify({ method: 'scene.update', params, to: 'receiver' })
+    return frames[frames.length - 1]
+  }
+
+  beforeEach(() => {
+    frames = []
+    sender = new MessageNexus(new MittDriver(mitt()), { instanceId: 'sender', security: { keys } })
+    vi.spyOn(sender.driver, 'send').mockImplementation((message) => {
+      frames.push(message)
+    })
+    receiver = new MessageNexus(new MittDriver(mitt()), {
+      instanceId: 'receiver',
+      security: { keys, maxAge: 1000 },
+    })
+    handler = vi.fn()
+    receiver.onNotification('scene.update', handler)
+  })
+
+  afterEach(() => {
+    sender.destroy()
+    receiver.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should drop unsigned messages', async () => {
+    await receiver._handleIncoming({
+      from: 'sender',
+      payload: { jsonrpc: '2.0', method: 'scene.update', params: {} },
+    })
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should drop forged messages', async () => {
+    const frame = await sendFrame()
+    const params = (frame.payload as any).params
+    const forged = {
+      ...frame,
+      payload: { ...frame.payload, params: { ...params, data: params.data.replace('1', '2') } },
+    }
+
+    await receiver._handleIncoming(forged)
+    await receiver._handleIncoming({ ...frame, from: 'mallory' })
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should drop replayed messages', async () => {
+    const frame = await sendFrame()
+
+    await receiver._handleIncoming(frame)
+    await receiver._handleIncoming(frame)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should drop messages outside maxAge', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const frame = await sendFrame()
+
+    vi.advanceTimersByTime(1001)
+    await receiver._handleIncoming(frame)
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should drop messages signed with an unknown key', async () => {
+    sender.setSecurityKeys([{ id: 'k1', secret: 'guessed secret' }])
+    await receiver._handleIncoming(await sendFrame())
+
+    sender.setSecurityKeys([{ id: 'k9', secret: 'correct horse battery staple' }])
+    await receiver._handleIncoming(await sendFrame())
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
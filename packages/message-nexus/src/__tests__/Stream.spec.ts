@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { NexusErrorCode } from '../index'
+import MittDriver from '../drivers/MittDriver'
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('Streaming', () => {
+  let caller: MessageNexus
+  let callee: MessageNexus
+
+  beforeEach(() => {
+    const emitter = mitt() as any
+    caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller' })
+    callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee' })
+  })
+
+  afterEach(() => {
+    caller.destroy()
+    callee.destroy()
+  })
+
+  it('should deliver every yielded value in order', async () => {
+    callee.handleStream('count', async function* (params: any) {
+      for (let i = 0; i < params.to; i++) {
+        yield i
+      }
+    })
+
+    const values: unknown[] = []
+    for await (const value of caller.stream('count', { to: 5 }, { to: 'callee' })) {
+      values.push(value)
+    }
+
+    expect(values).toEqual([0, 1, 2, 3, 4])
+    expect(caller.getPendingTasksCount()).toBe(0)
+  })
+
+  it('should accept plain iterables', async () => {
+    callee.handleStream('letters', () => ['a', 'b'])
+
+    const values: unknown[] = []
+    for await (const value of caller.stream('letters', undefined, { to: 'callee' })) {
+      values.push(value)
+    }
+
+    expect(values).toEqual(['a', 'b'])
+  })
+
+  it('should not produce more than highWaterMark chunks ahead of the consumer', async () => {
+    let produced = 0
+    callee.handleStream('infinite', async function* () {
+      while (true) {
+        produced++
+        yield produced
+      }
+    })
+
+    const iterator = caller.stream('infinite', undefined, { to: 'callee', highWaterMark: 4 })
+    await flush()
+    expect(produced).toBeLessThanOrEqual(5)
+
+    // Consuming half the window grants more credits
+    await iterator.next()
+    await iterator.next()
+    await flush()
+    expect(produced).toBeLessThanOrEqual(7)
+
+    await iterator.return!()
+  })
+
+  it('should cancel the remote generator when the consumer breaks', async () => {
+    const cleanup = vi.fn()
+    let handlerSignal: AbortSignal | undefined
+    callee.handleStream('ticks', async function* (_params, context) {
+      handlerSignal = context.signal
+      try {
+        let i = 0
+        while (true) yield i++
+      } finally {
+        cleanup()
+      }
+    })
+
+    for await (const value of caller.stream('ticks', undefined, { to: 'callee' })) {
+      if (value === 2) break
+    }
+    await flush()
+
+    expect(handlerSignal?.aborted).toBe(true)
+    expect(cleanup).toHaveBeenCalled()
+    expect(caller.getPendingTasksCount()).toBe(0)
+  })
+
+  it('should reject after buffered values when the generator throws', async () => {
+    callee.handleStream('broken', async function* () {
+      yield 1
+      throw new Error('Generator failed')
+    })
+
+    const values: unknown[] = []
+    const consume = async () => {
+      for await (const value of caller.stream('broken', undefined, { to: 'callee' })) {
+        values.push(value)
+      }
+    }
+
+    await expect(consume()).rejects.toThrow('Generator failed')
+    expect(values).toEqual([1])
+  })
+
+  it('should reject with MethodNotFound when no stream handler exists', async () => {
+    callee.handle('plain', () => 'not a stream')
+
+    const iterator = caller.stream('plain', undefined, { to: 'callee' })
+
+    await expect(iterator.next()).rejects.toMatchObject({ code: NexusErrorCode.MethodNotFound })
+  })
+
+  it('should leave a `stream` key in application metadata to regular handlers', async () => {
+    callee.handle('plain', () => 'not a stream')
+    callee.handleStream('plain', () => ['a stream'])
+
+    await expect(
+      caller.invoke({ method: 'plain', to: 'callee', metadata: { stream: true } }),
+    ).resolves.toBe('not a stream')
+  })
+
+  it('should cancel the stream through an AbortSignal', async () => {
+    let handlerSignal: AbortSignal | undefined
+    callee.handleStream('slow', async function* (_params, context) {
+      handlerSignal = context.signal
+      yield 1
+      await new Promise(() => {})
+    })
+
+    const controller = new AbortController()
+    const iterator = caller.stream('slow', undefined, {
+      to: 'callee',
+      signal: controller.signal,
+    })
+    await expect(iterator.next()).resolves.toEqual({ value: 1, done: false })
+
+    const pending = iterator.next()
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ code: NexusErrorCode.RequestCancelled })
+    await flush()
+    expect(handlerSignal?.aborted).toBe(true)
+  })
+
+  it('should time out when the producer goes silent', async () => {
+    vi.useFakeTimers()
+    callee.handleStream('stuck', async function* () {
+      await new Promise(() => {})
+    })
+
+    const iterator = caller.stream('stuck', undefined, { to: 'callee', timeout: 100 })
+    const pending = iterator.next()
+    pending.catch(() => {})
+    await vi.advanceTimersByTimeAsync(100)
+
+    await expect(pending).rejects.toMatchObject({ code: NexusErrorCode.Timeout })
+    vi.useRealTimers()
+  })
+
+  it('should stop the producer when the consumer stops pulling', async () => {
+    vi.useFakeTimers()
+    const finished = vi.fn()
+    callee.handleStream('ticks', async function* () {
+      try {
+        for (let i = 0; ; i++) yield i
+      } finally {
+        finished()
+      }
+    })
+
+    const iterator = caller.stream('ticks', undefined, {
+      to: 'callee',
+      highWaterMark: 1,
+      timeout: 100,
+    })
+    iterator.next().catch(() => {})
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(finished).toHaveBeenCalled()
+    vi.useRealTimers()
+  })
+
+  it.each([{ presence: true }, { handshake: true }])(
+    'should stop the producer when the consumer leaves (%o)',
+    async (options) => {
+      caller.destroy()
+      callee.destroy()
+      const emitter = mitt() as any
+      caller = new MessageNexus(new MittDriver(emitter), { instanceId: 'caller', ...options })
+      callee = new MessageNexus(new MittDriver(emitter), { instanceId: 'callee', ...options })
+      let handlerSignal: AbortSignal | undefined
+      callee.handleStream('ticks', async function* (_params, context) {
+        handlerSignal = context.signal
+        for (let i = 0; ; i++) yield i
+      })
+
+      const iterator = caller.stream('ticks', undefined, { to: 'callee', highWaterMark: 1 })
+      await expect(iterator.next()).resolves.toEqual({ value: 0, done: false })
+      caller.destroy()
+
+      expect(handlerSignal?.aborted).toBe(true)
+    },
+  )
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest'
+import mitt from 'mitt'
+import MessageNexus, { transfer } from '../index'
+import BaseDriver from '../drivers/BaseDriver'
+import MittDriver from '../drivers/MittDriver'
+import MessagePortDriver from '../drivers/MessagePortDriver'
+import PostMessageDriver from '../drivers/PostMessageDriver'
+
+describe('Transferable support', () => {
+  class TransferDriver extends BaseDriver {
+    readonly supportsTransfer = true
+    send = vi.fn()
+  }
+
+  it('should pass the transfer list of invoke to the driver', async () => {
+    vi.useFakeTimers()
+    const driver = new TransferDriver()
+    const nexus = new MessageNexus(driver)
+    const buffer = new ArrayBuffer(8)
+
+    nexus.invoke({ method: 'upload', params: { buffer }, transfer: [buffer] }).catch(() => {})
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(driver.send).toHaveBeenCalledWith(expect.any(Object), [buffer])
+
+    nexus.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should pass the transfer list of notify to the driver', async () => {
+    const driver = new TransferDriver()
+    const nexus = new MessageNexus(driver)
+    const buffer = new ArrayBuffer(8)
+
+    await nexus.notify({ method: 'frame', params: { buffer }, transfer: [buffer] })
+
+    expect(driver.send).toHaveBeenCalledWith(expect.any(Object), [buffer])
+  })
+
+  it('should keep the transfer list for queued messages', async () => {
+    const driver = new TransferDriver()
+    const nexus = new MessageNexus(driver)
+    const buffer = new ArrayBuffer(8)
+
+    driver.send.mockImplementationOnce(() => {
+      throw new Error('Offline')
+    })
+    await nexus.notify({ method: 'frame', params: { buffer }, transfer: [buffer] })
+    expect(nexus.getQueueLength()).toBe(1)
+
+    nexus.flushQueue()
+
+    expect(driver.send).toHaveBeenLastCalledWith(expect.any(Object), [buffer])
+    expect(nexus.getQueueLength()).toBe(0)
+  })
+
+  it('should copy and warn when the driver cannot transfer', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const driver = new MittDriver(mitt() as any)
+    const sendSpy = vi.spyOn(driver, 'send')
+    const nexus = new MessageNexus(driver, { logger, loggerEnabled: true })
+    const buffer = new ArrayBuffer(8)
+
+    await nexus.notify({ method: 'frame', params: { buffer }, transfer: [buffer] })
+
+    expect(sendSpy).toHaveBeenCalledTimes(1)
+    expect(sendSpy.mock.calls[0]).toHaveLength(1)
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Driver does not support transferables, payload will be copied',
+      expect.any(Object),
+    )
+  })
+
+  it('should copy and warn when messages are signed', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const driver = new TransferDriver()
+    const nexus = new MessageNexus(driver, {
+      logger,
+      loggerEnabled: true,
+      security: { keys: [{ id: 'k1', secret: 'shared secret' }] },
+    })
+    const buffer = new ArrayBuffer(8)
+
+    await nexus.notify({ method: 'frame', params: { buffer }, transfer: [buffer] })
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+    expect(driver.send.mock.calls[0]).toHaveLength(1)
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Signed messages are serialized, transferables will be copied',
+      expect.any(Object),
+    )
+  })
+
+  it('should transfer handler results marked with transfer()', async () => {
+    const driver = new TransferDriver()
+    const nexus = new MessageNexus(driver)
+    const buffer = new ArrayBuffer(8)
+
+    nexus.handle('read', () => transfer({ buffer }, [buffer]))
+
+    await nexus._handleIncoming({
+      from: 'caller',
+      payload: { jsonrpc: '2.0', method: 'read', id: '1' },
+    })
+
+    expect(driver.send).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: { jsonrpc: '2.0', id: '1', result: { buffer } } }),
+      [buffer],
+    )
+  })
+
+  it('should forward the transfer list to postMessage', () => {
+    const mockWindow = { postMessage: vi.fn() } as unknown as Window
+    const driver = new PostMessageDriver(mockWindow, 'https://example.com')
+    const buffer = new ArrayBuffer(8)
+
+    driver.send({ from: 'sender', payload: { jsonrpc: '2.0', method: 'test' } }, [buffer])
+
+    expect(mockWindow.postMessage).toHaveBeenCalledWith(expect.any(Object), 'https://example.com', [
+      buffer,
+    ])
+    driver.destroy()
+  })
+
+  it('should detach transferred buffers over a real MessageChannel', async () => {
+    const channel = new MessageChannel()
+    const caller = new MessageNexus(new MessagePortDriver(channel.port1))
+    const callee = new MessageNexus(new MessagePortDriver(channel.port2))
+    const buffer = new ArrayBuffer(16)
+
+    callee.handle('size', (params: any) => params.buffer.byteLength)
+
+    const result = await caller.invoke({
+      method: 'size',
+      params: { buffer },
+      transfer: [buffer],
+    })
+
+    expect(result).toBe(16)
+    expect(buffer.byteLength).toBe(0)
+
+    caller.destroy()
+    callee.destroy()
+  })
+})
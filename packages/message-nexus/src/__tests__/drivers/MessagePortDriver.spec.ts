@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import MessagePortDriver, { type MessagePortLike } from '../../drivers/MessagePortDriver'
+import MessageNexus from '../../index'
+import { NexusErrorCode } from '../../errors'
+
+describe('MessagePortDriver', () => {
+  let mockPort: any
+
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    mockPort = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      start: vi.fn(),
+      close: vi.fn(),
+    }
+  })
+
+  const getMessageHandler = () =>
+    mockPort.addEventListener.mock.calls.find((call: unknown[]) => call[0] === 'message')?.[1] as (
+      event: MessageEvent,
+    ) => void
+
+  it('should register a listener and start the port', () => {
+    new MessagePortDriver(mockPort)
+
+    expect(mockPort.addEventListener).toHaveBeenCalledWith('message', expect.any(Function))
+    expect(mockPort.start).toHaveBeenCalled()
+  })
+
+  it('should accept endpoints without start()/close() such as Worker', () => {
+    const worker = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    }
+
+    const driver = new MessagePortDriver(worker)
+    expect(() => driver.destroy()).not.toThrow()
+  })
+
+  it('should throw when the endpoint is not port-like', () => {
+    expect(() => new MessagePortDriver({} as any)).toThrow(
+      'MessagePortDriver requires an endpoint with postMessage and addEventListener',
+    )
+  })
+
+  it('should send messages with the protocol marker', () => {
+    const driver = new MessagePortDriver(mockPort)
+    driver.send({ from: 'sender', payload: { jsonrpc: '2.0', method: 'test' } })
+
+    expect(mockPort.postMessage).toHaveBeenCalledWith({
+      from: 'sender',
+      payload: { jsonrpc: '2.0', method: 'test' },
+      __messageBridge: 'message-nexus-v1',
+    })
+  })
+
+  it('should map DataCloneError to InvalidParams', () => {
+    mockPort.postMessage.mockImplementation(() => {
+      throw new DOMException('could not be cloned', 'DataCloneError')
+    })
+    const driver = new MessagePortDriver(mockPort)
+
+    try {
+      driver.send({ from: 'sender', payload: { jsonrpc: '2.0', method: 'test' } })
+      expect.fail('Should have thrown')
+    } catch (error: any) {
+      expect(error.message).toBe('Message payload cannot be cloned')
+      expect(error.code).toBe(NexusErrorCode.InvalidParams)
+    }
+  })
+
+  it('should only forward messages with the protocol marker', () => {
+    const handler = vi.fn()
+    const driver = new MessagePortDriver(mockPort)
+    driver.onMessage = handler
+
+    const messageHandler = getMessageHandler()
+    messageHandler({ data: { from: 'sender' } } as MessageEvent)
+    messageHandler({ data: null } as MessageEvent)
+    messageHandler({
+      data: { from: 'sender', __messageBridge: 'message-nexus-v1' },
+    } as MessageEvent)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ from: 'sender' })
+  })
+
+  it('should remove listener and close the port on destroy', () => {
+    const driver = new MessagePortDriver(mockPort)
+    driver.destroy()
+
+    expect(mockPort.removeEventListener).toHaveBeenCalledWith('message', expect.any(Function))
+    expect(mockPort.close).toHaveBeenCalledTimes(1)
+    expect(driver.onMessage).toBeNull()
+
+    // Calling destroy again should be safe
+    driver.destroy()
+    expect(mockPort.close).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not close the port when closeOnDestroy is false', () => {
+    const driver = new MessagePortDriver(mockPort, { closeOnDestroy: false })
+    driver.destroy()
+
+    expect(mockPort.removeEventListener).toHaveBeenCalled()
+    expect(mockPort.close).not.toHaveBeenCalled()
+  })
+
+  it('should not close the global scope by default', () => {
+    const close = vi.spyOn(globalThis, 'close').mockImplementation(() => {})
+    const driver = new MessagePortDriver(globalThis as unknown as MessagePortLike)
+    driver.destroy()
+
+    expect(close).not.toHaveBeenCalled()
+    close.mockRestore()
+  })
+
+  it('should complete an invoke over a real MessageChannel', async () => {
+    const channel = new MessageChannel()
+    const caller = new MessageNexus(new MessagePortDriver(channel.port1), { instanceId: 'caller' })
+    const callee = new MessageNexus(new MessagePortDriver(channel.port2), { instanceId: 'callee' })
+
+    callee.handle('sum', (params: any) => params.a + params.b)
+
+    await expect(caller.invoke({ method: 'sum', params: { a: 1, b: 2 } })).resolves.toBe(3)
+
+    caller.destroy()
+    callee.destroy()
+  })
+})
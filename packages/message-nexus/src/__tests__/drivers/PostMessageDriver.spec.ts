@@ -17,6 +17,12 @@ describe('PostMessageDriver', () => {
     expect(addEventListenerSpy).toHaveBeenCalledWith('message', expect.any(Function))
   })
 
+  it('should report targetOrigin as the peer origin', () => {
+    const driver = new PostMessageDriver({} as Window, 'https://example.com')
+
+    expect(driver.origin).toBe('https://example.com')
+  })
+
   it('should throw error when targetOrigin is "*"', () => {
     const mockWindow = {} as Window
 
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import MessageNexus from '../../index'
+import BaseDriver, { type Message } from '../../drivers/BaseDriver'
+import SharedConnectionDriver from '../../drivers/SharedConnectionDriver'
+
+class FakeBroadcastChannel {
+  static channels = new Map<string, Set<FakeBroadcastChannel>>()
+  private listeners = new Set<(event: { data: unknown }) => void>()
+
+  constructor(private name: string) {
+    if (!FakeBroadcastChannel.channels.has(name)) {
+      FakeBroadcastChannel.channels.set(name, new Set())
+    }
+    FakeBroadcastChannel.channels.get(name)!.add(this)
+  }
+
+  postMessage(data: unknown) {
+    const copy = structuredClone(data)
+    FakeBroadcastChannel.channels.get(this.name)?.forEach((channel) => {
+      if (channel === this) return
+      queueMicrotask(() => channel.listeners.forEach((listener) => listener({ data: copy })))
+    })
+  }
+
+  addEventListener(_type: string, listener: (event: { data: unknown }) => void) {
+    this.listeners.add(listener)
+  }
+
+  removeEventListener(_type: string, listener: (event: { data: unknown }) => void) {
+    this.listeners.delete(listener)
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.get(this.name)?.delete(this)
+  }
+}
+
+class FakeSocketDriver extends BaseDriver {
+  sent: Message[] = []
+  open = false
+  destroyed = false
+
+  connect() {
+    this.open = true
+    this.onConnect?.()
+  }
+
+  disconnect() {
+    this.open = false
+    this.onDisconnect?.()
+  }
+
+  receive(message: Message) {
+    this.onMessage?.(message)
+  }
+
+  send(data: Message) {
+    if (!this.open) throw new Error('Socket is not open')
+    this.sent.push(data)
+  }
+
+  destroy() {
+    this.destroyed = true
+    this.open = false
+  }
+}
+
+describe('SharedConnectionDriver', () => {
+  let sockets: FakeSocketDriver[]
+  let drivers: SharedConnectionDriver[]
+  let nexuses: MessageNexus[]
+
+  const createTab = (instanceId: string) => {
+    const driver = new SharedConnectionDriver({
+      channel: 'shared',
+      createDriver: () => {
+        const socket = new FakeSocketDriver()
+        sockets.push(socket)
+        return socket
+      },
+      election: { heartbeatInterval: 100, electionTimeout: 300 },
+    })
+    const nexus = new MessageNexus(driver, { instanceId })
+    drivers.push(driver)
+    nexuses.push(nexus)
+    return { driver, nexus }
+  }
+
+  // Plays the server: answers every request with the method name
+  const answerRequests = (socket: FakeSocketDriver) => {
+    socket.sent.splice(0).forEach((message) => {
+      const request = message.payload as { id: string; method: string }
+      socket.receive({
+        from: 'server',
+        to: message.from,
+        payload: { jsonrpc: '2.0', id: request.id, result: `${request.method} done` },
+      })
+    })
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    FakeBroadcastChannel.channels.clear()
+    sockets = []
+    drivers = []
+    nexuses = []
+  })
+
+  afterEach(() => {
+    nexuses.forEach((nexus) => nexus.destroy())
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('should require a channel name', () => {
+    expect(
+      () => new SharedConnectionDriver({ channel: '', createDriver: () => new FakeSocketDriver() }),
+    ).toThrow('SharedConnectionDriver requires a channel name')
+  })
+
+  it('should open a single connection for all tabs', async () => {
+    createTab('tab-a')
+    createTab('tab-b')
+    createTab('tab-c')
+
+    await vi.advanceTimersByTimeAsync(2000)
+
+    expect(sockets).toHaveLength(1)
+    expect(drivers.filter((driver) => driver.isLeader)).toHaveLength(1)
+  })
+
+  it('should relay requests of follower tabs and route responses back', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+    sockets[0].connect()
+    await vi.advanceTimersByTimeAsync(0)
+
+    const follower = a.driver.isLeader ? b.nexus : a.nexus
+    const leader = a.driver.isLeader ? a.nexus : b.nexus
+    const fromFollower = follower.invoke({ method: 'load', to: 'server' })
+    const fromLeader = leader.invoke({ method: 'save', to: 'server' })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(sockets[0].sent.map((message) => message.from).sort()).toEqual(['tab-a', 'tab-b'])
+    answerRequests(sockets[0])
+    await vi.advanceTimersByTimeAsync(0)
+
+    await expect(fromFollower).resolves.toBe('load done')
+    await expect(fromLeader).resolves.toBe('save done')
+  })
+
+  it('should deliver server notifications to every tab', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+    sockets[0].connect()
+    const received = vi.fn()
+    a.nexus.onNotification('update', received)
+    b.nexus.onNotification('update', received)
+
+    sockets[0].receive({
+      from: 'server',
+      payload: { jsonrpc: '2.0', method: 'update', params: { version: 2 } },
+    })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(received).toHaveBeenCalledTimes(2)
+  })
+
+  it('should hold messages of follower tabs while the connection is down', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+    sockets[0].connect()
+    await vi.advanceTimersByTimeAsync(0)
+
+    // Sent before the follower hears that the connection dropped
+    const follower = a.driver.isLeader ? b.nexus : a.nexus
+    const pending = follower.invoke({ method: 'load', to: 'server' })
+    sockets[0].disconnect()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(sockets[0].sent).toEqual([])
+
+    sockets[0].connect()
+    answerRequests(sockets[0])
+    await vi.advanceTimersByTimeAsync(0)
+
+    await expect(pending).resolves.toBe('load done')
+  })
+
+  it('should hand the connection over when the leader tab closes', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    await vi.advanceTimersByTimeAsync(2000)
+    sockets[0].connect()
+    await vi.advanceTimersByTimeAsync(0)
+
+    const [leader, follower] = a.driver.isLeader ? [a, b] : [b, a]
+    leader.nexus.destroy()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(sockets[0].destroyed).toBe(true)
+
+    // Queued by the nexus until the new leader's connection is open
+    const pending = follower.nexus.invoke({ method: 'load', to: 'server' })
+    await vi.advanceTimersByTimeAsync(150)
+
+    expect(follower.driver.isLeader).toBe(true)
+    expect(sockets).toHaveLength(2)
+    sockets[1].connect()
+    answerRequests(sockets[1])
+    await vi.advanceTimersByTimeAsync(0)
+
+    await expect(pending).resolves.toBe('load done')
+  })
+
+  it('should let a new tab use an already open connection', async () => {
+    createTab('tab-a')
+    await vi.advanceTimersByTimeAsync(1000)
+    sockets[0].connect()
+
+    const late = createTab('tab-late')
+    await vi.advanceTimersByTimeAsync(0)
+    const pending = late.nexus.invoke({ method: 'load', to: 'server' })
+    await vi.advanceTimersByTimeAsync(0)
+    answerRequests(sockets[0])
+    await vi.advanceTimersByTimeAsync(0)
+
+    await expect(pending).resolves.toBe('load done')
+  })
+})
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import WebSocketDriver from '../../drivers/WebSocketDriver'
+import MessageNexus from '../../index'
+import { jsonCodec, extendedJsonCodec } from '../../utils/codec'
+import { msgpackCodec } from '../../utils/msgpack'
 
 describe('WebSocketDriver', () => {
   beforeEach(() => {
@@ -185,4 +188,75 @@ describe('WebSocketDriver', () => {
     expect(driver['ws']).toBeNull()
     expect(driver['reconnectTimer']).toBeNull()
   })
+
+  it('should encode and decode frames with the configured codec', () => {
+    const driver = new WebSocketDriver({ url: 'ws://localhost', codec: msgpackCodec })
+    const onMessage = vi.fn()
+    driver.onMessage = onMessage
+    const ws = getWsInstance()
+
+    expect(ws.binaryType).toBe('arraybuffer')
+    expect((global.WebSocket as any).mock.calls[0]).toEqual(['ws://localhost'])
+
+    const at = new Date('2024-01-01T00:00:00.000Z')
+    driver.send({ from: 'a', payload: { at } } as any)
+    const frame = ws.send.mock.calls[0][0]
+    expect(frame).toBeInstanceOf(Uint8Array)
+
+    getListeners(ws, 'message')[0]({ data: frame.buffer })
+    expect(onMessage).toHaveBeenCalledWith({ from: 'a', payload: { at } })
+  })
+
+  it('should carry invocations without params or `to` through msgpack', async () => {
+    const client = new MessageNexus(new WebSocketDriver({ url: 'ws://localhost', codec: msgpackCodec }), {
+      instanceId: 'client',
+    })
+    const server = new MessageNexus(new WebSocketDriver({ url: 'ws://localhost', codec: msgpackCodec }), {
+      instanceId: 'server',
+    })
+    const [clientWs, serverWs] = [getWsInstance(0), getWsInstance(1)]
+    const deliver = (ws: any) => (frame: Uint8Array) =>
+      getListeners(ws, 'message')[0]({ data: frame.slice().buffer })
+    clientWs.send.mockImplementation(deliver(serverWs))
+    serverWs.send.mockImplementation(deliver(clientWs))
+    const handler = vi.fn((params: unknown) => params === undefined)
+    server.handle('ping', handler)
+
+    await expect(client.invoke({ method: 'ping' })).resolves.toBe(true)
+    expect(handler).toHaveBeenCalledWith(undefined, expect.objectContaining({ to: undefined }))
+
+    client.destroy()
+    server.destroy()
+  })
+
+  it('should offer several codecs as subprotocols and use the one the server selects', () => {
+    const driver = new WebSocketDriver({
+      url: 'ws://localhost',
+      codec: [msgpackCodec, extendedJsonCodec],
+    })
+    const ws = getWsInstance()
+
+    expect((global.WebSocket as any).mock.calls[0][1]).toEqual([
+      'message-nexus-v1.msgpack',
+      'message-nexus-v1.ejson',
+    ])
+
+    ws.protocol = 'message-nexus-v1.ejson'
+    getListeners(ws, 'open')[0]()
+    driver.send({ from: 'a', payload: { big: 1n } } as any)
+
+    expect(ws.send).toHaveBeenCalledWith(
+      extendedJsonCodec.encode({ from: 'a', payload: { big: 1n }, __messageBridge: 'message-nexus-v1' }),
+    )
+  })
+
+  it('should fall back to the first codec when the server selects none', () => {
+    const driver = new WebSocketDriver({ url: 'ws://localhost', codec: [jsonCodec, msgpackCodec] })
+    const ws = getWsInstance()
+
+    ws.protocol = ''
+    getListeners(ws, 'open')[0]()
+
+    expect(driver['codec']).toBe(jsonCodec)
+  })
 })
@@ -0,0 +1,90 @@
+import { matchesPattern, type MethodPattern } from '../utils/pattern'
+
+/**
+ * Restricts methods for the peers it applies to. A rule without `peer`, `origin` and
+ * `principal` applies to everyone.
+ */
+export interface AccessRule {
+  /**
+   * Instance ids of the peers, as patterns or regular expressions. Matched
+   * against `from`, which any sender can claim unless messages are signed.
+   */
+  peer?: MethodPattern | MethodPattern[]
+  /** Origins of the driver the message arrived through, e.g. `https://widget.example`. */
+  origin?: MethodPattern | MethodPattern[]
+  /**
+   * Applies when this returns true for the principal of the authenticated sender. Senders
+   * without a principal are held to the `deny` list of the rule.
+   */
+  principal?: (principal: unknown) => boolean
+  /** When set, only these methods are allowed. */
+  allow?: MethodPattern[]
+  deny?: MethodPattern[]
+}
+
+export interface AccessControlOptions {
+  rules: AccessRule[]
+  /** Decision for messages no rule applies to. Defaults to `'allow'`. */
+  default?: 'allow' | 'deny'
+}
+
+/**
+ * Who sent a message, as far as the receiving instance knows.
+ */
+export interface AccessSubject {
+  from: string
+  origin?: string
+  principal?: unknown
+}
+
+export interface AccessDecision {
+  allowed: boolean
+  /** Index of the rule that denied the method. Unset when the default denied it. */
+  rule?: number
+}
+
+function matchesAny(value: string | undefined, patterns: MethodPattern | MethodPattern[]) {
+  if (value === undefined) return false
+  const list = Array.isArray(patterns) ? patterns : [patterns]
+  return list.some((pattern) => matchesPattern(value, pattern))
+}
+
+/**
+ * Evaluates access rules. Every rule that applies to the sender has to permit the method,
+ * so a rule can only narrow what the others allow.
+ */
+export class AccessControl {
+  private rules: AccessRule[]
+  private fallback: 'allow' | 'deny'
+
+  constructor(options: AccessControlOptions) {
+    this.rules = options.rules
+    this.fallback = options.default ?? 'allow'
+  }
+
+  check(method: string, subject: AccessSubject): AccessDecision {
+    let applied = false
+    for (let index = 0; index < this.rules.length; index++) {
+      const rule = this.rules[index]
+      if (!this.applies(rule, subject)) continue
+      // A principal rule cannot be evaluated without a principal. Its deny list still holds,
+      // but it does not count as applied, which would get past `default: 'deny'`
+      const unknown = rule.principal !== undefined && subject.principal === undefined
+      const denied =
+        rule.deny?.some((pattern) => matchesPattern(method, pattern)) ||
+        (!unknown && rule.allow && !rule.allow.some((pattern) => matchesPattern(method, pattern)))
+      if (denied) return { allowed: false, rule: index }
+      if (!unknown) applied = true
+    }
+    return { allowed: applied || this.fallback === 'allow' }
+  }
+
+  private applies(rule: AccessRule, subject: AccessSubject): boolean {
+    if (rule.peer !== undefined && !matchesAny(subject.from, rule.peer)) return false
+    if (rule.origin !== undefined && !matchesAny(subject.origin, rule.origin)) return false
+    if (rule.principal && subject.principal !== undefined && !rule.principal(subject.principal)) {
+      return false
+    }
+    return true
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Outcome of a successful `authenticate` callback.
+ */
+export interface AuthResult {
+  /** Exposed to handlers as `context.auth`. */
+  principal: unknown
+  /** Epoch milliseconds after which the peer has to authenticate again. */
+  expiresAt?: number
+}
+
+export interface AuthSessionsOptions {
+  /** How long before `expiresAt` the peer is asked to re-authenticate. */
+  refreshMargin: number
+  onRefresh: (from: string) => void
+}
+
+interface Session extends AuthResult {
+  token: string
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Authenticated peers by instance id. Each session has a token the peer has to present with
+ * its messages, since the instance id alone can be claimed by anyone on the transport.
+ * Expired sessions are ignored on lookup; a timer asks the peer to refresh shortly before
+ * that happens.
+ */
+export class AuthSessions {
+  private sessions: Map<string, Session> = new Map()
+  private options: AuthSessionsOptions
+
+  constructor(options: AuthSessionsOptions) {
+    this.options = options
+  }
+
+  /**
+   * Starts a session and returns its token. A peer presenting the token of its current
+   * session keeps it, so refreshing does not fail requests that are already on the way.
+   */
+  set(from: string, result: AuthResult, presentedToken?: unknown): string {
+    const current = this.sessions.get(from)
+    const token = current && current.token === presentedToken ? current.token : crypto.randomUUID()
+    this.remove(from)
+    const session: Session = { ...result, token }
+    if (result.expiresAt !== undefined) {
+      const delay = Math.max(0, result.expiresAt - this.options.refreshMargin - Date.now())
+      session.timer = setTimeout(() => this.options.onRefresh(from), delay)
+    }
+    this.sessions.set(from, session)
+    return token
+  }
+
+  get(from: string, token: unknown): AuthResult | undefined {
+    const session = this.sessions.get(from)
+    if (!session || session.token !== token) return undefined
+    if (session.expiresAt !== undefined && session.expiresAt <= Date.now()) {
+      this.remove(from)
+      return undefined
+    }
+    return { principal: session.principal, expiresAt: session.expiresAt }
+  }
+
+  remove(from: string): void {
+    const session = this.sessions.get(from)
+    if (!session) return
+    clearTimeout(session.timer)
+    this.sessions.delete(from)
+  }
+
+  clear(): void {
+    this.sessions.forEach((session) => clearTimeout(session.timer))
+    this.sessions.clear()
+  }
+}
@@ -0,0 +1,201 @@
+import { NexusError, NexusErrorCode } from '../errors'
+
+type AnyFunction = (...args: any[]) => unknown
+
+/**
+ * Wire placeholder that replaces a function in params and results.
+ */
+export interface FunctionRef {
+  __nexusFunction: string
+}
+
+export interface CallbackRegistryOptions {
+  /** Replace every function found in payloads, not only those marked with `proxyFunction()`. */
+  autoProxy?: boolean
+  /** Calls a function owned by `owner` through the nexus. */
+  invoke: (owner: string, ref: string, args: unknown[]) => Promise<unknown>
+  /** Tells `owner` that `count` references to `ref` were dropped. */
+  release: (owner: string, ref: string, count: number) => void
+}
+
+const markedFunctions = new WeakSet<AnyFunction>()
+let markedCount = 0
+
+/**
+ * Marks a function so it is sent as a remote reference instead of being cloned.
+ */
+export function proxyFunction<T extends AnyFunction>(fn: T): T {
+  if (!markedFunctions.has(fn)) {
+    markedFunctions.add(fn)
+    markedCount++
+  }
+  return fn
+}
+
+export function isFunctionRef(value: unknown): value is FunctionRef {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as FunctionRef).__nexusFunction === 'string' &&
+    Object.keys(value).length === 1
+  )
+}
+
+function isPlainContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  if (Array.isArray(value)) return true
+  if (typeof value !== 'object' || value === null) return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Tracks local functions exposed to peers and stubs for functions owned by peers.
+ *
+ * Local functions are reference counted: every time one is sent the count grows, and peers
+ * release references once their stub is garbage collected or the peer is destroyed.
+ */
+export class CallbackRegistry {
+  private autoProxy: boolean
+  private invoke: CallbackRegistryOptions['invoke']
+  private release: CallbackRegistryOptions['release']
+
+  private localRefs: Map<string, { fn: AnyFunction; count: number }> = new Map()
+  private localIds: WeakMap<AnyFunction, string> = new WeakMap()
+  private remoteRefs: Map<
+    string,
+    { owner: string; ref: string; stub: WeakRef<AnyFunction>; count: number }
+  > = new Map()
+  private finalizer: FinalizationRegistry<string> | null
+
+  constructor(options: CallbackRegistryOptions) {
+    this.autoProxy = options.autoProxy ?? false
+    this.invoke = options.invoke
+    this.release = options.release
+    this.finalizer =
+      typeof FinalizationRegistry !== 'undefined'
+        ? new FinalizationRegistry((key) => this.collect(key))
+        : null
+  }
+
+  /**
+   * Replaces proxied functions with `FunctionRef` placeholders. Values without functions
+   * are returned as is; containers are copied only along the paths that change.
+   */
+  serialize(value: unknown): unknown {
+    if (!this.autoProxy && markedCount === 0) return value
+    return this.replaceFunctions(value, new Set())
+  }
+
+  /**
+   * Replaces `FunctionRef` placeholders sent by `owner` with callable stubs.
+   */
+  deserialize(value: unknown, owner: string): unknown {
+    if (isFunctionRef(value)) {
+      return this.getStub(owner, value.__nexusFunction)
+    }
+    if (!isPlainContainer(value)) return value
+
+    let copy: Record<string, unknown> | unknown[] | null = null
+    for (const [key, item] of Object.entries(value)) {
+      const next = this.deserialize(item, owner)
+      if (next !== item) {
+        copy ??= Array.isArray(value) ? [...value] : { ...value }
+        ;(copy as Record<string, unknown>)[key] = next
+      }
+    }
+    return copy ?? value
+  }
+
+  /**
+   * Calls a local function on behalf of a peer.
+   */
+  async call(ref: string, args: unknown[]): Promise<unknown> {
+    const entry = this.localRefs.get(ref)
+    if (!entry) {
+      throw new NexusError(`Function reference released: ${ref}`, NexusErrorCode.InvalidParams)
+    }
+    return entry.fn(...args)
+  }
+
+  releaseLocal(ref: string, count: number): void {
+    const entry = this.localRefs.get(ref)
+    if (!entry) return
+    entry.count -= count
+    if (entry.count <= 0) {
+      this.localRefs.delete(ref)
+      this.localIds.delete(entry.fn)
+    }
+  }
+
+  get localSize(): number {
+    return this.localRefs.size
+  }
+
+  get remoteSize(): number {
+    return this.remoteRefs.size
+  }
+
+  /**
+   * Releases every remote reference held by this side and forgets all local functions.
+   */
+  clear(): void {
+    this.remoteRefs.forEach(({ owner, ref, count }) => this.release(owner, ref, count))
+    this.remoteRefs.clear()
+    this.localRefs.clear()
+    this.localIds = new WeakMap()
+  }
+
+  private replaceFunctions(value: unknown, seen: Set<unknown>): unknown {
+    if (typeof value === 'function') {
+      const fn = value as AnyFunction
+      if (!this.autoProxy && !markedFunctions.has(fn)) return value
+      return { __nexusFunction: this.retain(fn) } satisfies FunctionRef
+    }
+    if (!isPlainContainer(value) || seen.has(value)) return value
+    seen.add(value)
+
+    let copy: Record<string, unknown> | unknown[] | null = null
+    for (const [key, item] of Object.entries(value)) {
+      const next = this.replaceFunctions(item, seen)
+      if (next !== item) {
+        copy ??= Array.isArray(value) ? [...value] : { ...value }
+        ;(copy as Record<string, unknown>)[key] = next
+      }
+    }
+    return copy ?? value
+  }
+
+  private retain(fn: AnyFunction): string {
+    let ref = this.localIds.get(fn)
+    if (!ref) {
+      ref = crypto.randomUUID()
+      this.localIds.set(fn, ref)
+      this.localRefs.set(ref, { fn, count: 0 })
+    }
+    this.localRefs.get(ref)!.count++
+    return ref
+  }
+
+  private getStub(owner: string, ref: string): AnyFunction {
+    const key = `${owner}:${ref}`
+    const entry = this.remoteRefs.get(key)
+    const existing = entry?.stub.deref()
+    if (entry && existing) {
+      entry.count++
+      return existing
+    }
+
+    const stub = (...args: unknown[]) => this.invoke(owner, ref, args)
+    this.remoteRefs.set(key, { owner, ref, stub: new WeakRef(stub), count: 1 })
+    this.finalizer?.register(stub, key)
+    return stub
+  }
+
+  private collect(key: string) {
+    const entry = this.remoteRefs.get(key)
+    // The key may have been reused by a newer stub that is still alive
+    if (!entry || entry.stub.deref()) return
+    this.remoteRefs.delete(key)
+    this.release(entry.owner, entry.ref, entry.count)
+  }
+}
@@ -0,0 +1,124 @@
+import type { ChunkParams } from './ChunkSender'
+
+export interface ChunkAssemblerOptions {
+  /** A message is abandoned when no chunk of it arrived for this long. */
+  timeout: number
+  /** Largest message, in characters, accepted for reassembly. */
+  maxMessageSize: number
+  /** Cap for all partially received messages together, in characters. */
+  maxPendingSize: number
+  onDrop: (from: string, id: string, reason: string) => void
+}
+
+interface Assembly {
+  total: number
+  chunks: Map<number, string>
+  size: number
+  timer?: ReturnType<typeof setTimeout>
+  /** Dropped assemblies stay until their timeout, so late chunks do not start over. */
+  dropped: boolean
+}
+
+function isChunkParams(params: unknown): params is ChunkParams {
+  const chunk = params as ChunkParams
+  return (
+    !!chunk &&
+    typeof chunk.id === 'string' &&
+    typeof chunk.data === 'string' &&
+    Number.isInteger(chunk.total) &&
+    Number.isInteger(chunk.index) &&
+    chunk.total > 0 &&
+    chunk.index >= 0 &&
+    chunk.index < chunk.total
+  )
+}
+
+/**
+ * Collects `$/chunk` notifications per sender and transfer until a message is complete.
+ */
+export class ChunkAssembler {
+  private assemblies: Map<string, Assembly> = new Map()
+  private pendingSize = 0
+  private options: ChunkAssemblerOptions
+
+  constructor(options: ChunkAssemblerOptions) {
+    this.options = options
+  }
+
+  /**
+   * Stores a chunk. Returns the encoded message once all of its chunks arrived, null before.
+   */
+  add(from: string, params: unknown): string | null {
+    if (!isChunkParams(params)) {
+      this.options.onDrop(from, String((params as ChunkParams)?.id), 'Invalid chunk')
+      return null
+    }
+
+    const { id, index, total, data } = params
+    const key = `${from}:${id}`
+    let assembly = this.assemblies.get(key)
+    if (!assembly) {
+      assembly = { total, chunks: new Map(), size: 0, dropped: false }
+      this.assemblies.set(key, assembly)
+    }
+    this.touch(key, assembly, from, id)
+
+    if (assembly.dropped || assembly.chunks.has(index)) return null
+    if (assembly.total !== total) {
+      this.drop(assembly, from, id, 'Chunk count mismatch')
+      return null
+    }
+    if (assembly.size + data.length > this.options.maxMessageSize) {
+      this.drop(assembly, from, id, 'Message exceeds maxMessageSize')
+      return null
+    }
+    if (this.pendingSize + data.length > this.options.maxPendingSize) {
+      this.drop(assembly, from, id, 'Pending chunks exceed maxPendingSize')
+      return null
+    }
+
+    assembly.chunks.set(index, data)
+    assembly.size += data.length
+    this.pendingSize += data.length
+    if (assembly.chunks.size < total) return null
+
+    const parts: string[] = []
+    for (let i = 0; i < total; i++) parts.push(assembly.chunks.get(i)!)
+    this.remove(key, assembly)
+    return parts.join('')
+  }
+
+  get size(): number {
+    return this.assemblies.size
+  }
+
+  clear(): void {
+    this.assemblies.forEach((assembly) => clearTimeout(assembly.timer))
+    this.assemblies.clear()
+    this.pendingSize = 0
+  }
+
+  private touch(key: string, assembly: Assembly, from: string, id: string) {
+    clearTimeout(assembly.timer)
+    assembly.timer = setTimeout(() => {
+      if (!assembly.dropped) {
+        this.options.onDrop(from, id, 'Timed out waiting for chunks')
+      }
+      this.remove(key, assembly)
+    }, this.options.timeout)
+  }
+
+  private drop(assembly: Assembly, from: string, id: string, reason: string) {
+    this.pendingSize -= assembly.size
+    assembly.chunks.clear()
+    assembly.size = 0
+    assembly.dropped = true
+    this.options.onDrop(from, id, reason)
+  }
+
+  private remove(key: string, assembly: Assembly) {
+    clearTimeout(assembly.timer)
+    this.pendingSize -= assembly.size
+    this.assemblies.delete(key)
+  }
+}
@@ -0,0 +1,173 @@
+import type { Message } from '../drivers/BaseDriver'
+import { CHUNK_METHOD } from '../utils/constants'
+
+export interface ChunkParams {
+  id: string
+  index: number
+  total: number
+  data: string
+}
+
+export interface ChunkSenderOptions {
+  /** Characters of encoded message per chunk. */
+  chunkSize: number
+  send: (frame: Message) => void
+  /**
+   * A message that waited behind a transfer, or a chunk after the first, failed to send.
+   * The rest of the message is dropped.
+   */
+  onError: (message: Message, error: unknown) => void
+}
+
+interface Transfer {
+  id: string
+  message: Message
+  data: string
+  total: number
+  next: number
+  flow?: string
+}
+
+function isTransfer(item: Transfer | Message): item is Transfer {
+  return 'message' in item
+}
+
+/**
+ * Splits encoded messages into `$/chunk` notifications. The first chunk is sent right away,
+ * the rest one per transfer and tick, so several transfers share the driver round-robin and
+ * other messages are not held up behind them. Messages of the same flow, e.g. the values and
+ * the end of one stream, wait until the transfer in front of them is done, so the peer
+ * receives them in the order they were sent.
+ */
+export class ChunkSender {
+  private transfers: Transfer[] = []
+  /** Messages waiting behind the transfer in flight for their flow. */
+  private waiting: Map<string, (Transfer | Message)[]> = new Map()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private options: ChunkSenderOptions
+
+  constructor(options: ChunkSenderOptions) {
+    this.options = options
+  }
+
+  /**
+   * Sends `message`, in chunks of `data` when given. Errors are thrown when it goes out right
+   * away, so the caller can queue the message like any other failed send.
+   */
+  send(message: Message, data?: string, flow?: string): void {
+    const item: Transfer | Message =
+      data === undefined
+        ? message
+        : {
+            id: crypto.randomUUID(),
+            message,
+            data,
+            total: Math.ceil(data.length / this.options.chunkSize),
+            next: 0,
+            flow,
+          }
+
+    const queue = flow === undefined ? undefined : this.waiting.get(flow)
+    if (queue) {
+      queue.push(item)
+      return
+    }
+    if (!isTransfer(item)) {
+      this.options.send(item)
+      return
+    }
+    this.sendNext(item)
+    this.start(item)
+  }
+
+  get size(): number {
+    return this.transfers.length
+  }
+
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.transfers = []
+    this.waiting.clear()
+  }
+
+  /** Keeps sending a transfer whose first chunk went out. */
+  private start(transfer: Transfer) {
+    if (transfer.next >= transfer.total) return
+    this.transfers.push(transfer)
+    if (transfer.flow !== undefined) this.waiting.set(transfer.flow, [])
+    this.schedule()
+  }
+
+  private schedule() {
+    if (this.timer || this.transfers.length === 0) return
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.pump()
+    }, 0)
+  }
+
+  private pump() {
+    const done: Transfer[] = []
+    this.transfers = this.transfers.filter((transfer) => {
+      try {
+        this.sendNext(transfer)
+      } catch (error) {
+        this.options.onError(transfer.message, error)
+        done.push(transfer)
+        return false
+      }
+      if (transfer.next < transfer.total) return true
+      done.push(transfer)
+      return false
+    })
+    done.forEach((transfer) => {
+      if (transfer.flow !== undefined) this.release(transfer.flow)
+    })
+    this.schedule()
+  }
+
+  /**
+   * Sends what waited for the flow, up to the next transfer, which the rest waits behind.
+   */
+  private release(flow: string) {
+    const queue = this.waiting.get(flow) ?? []
+    this.waiting.delete(flow)
+    while (queue.length > 0) {
+      const item = queue.shift()!
+      try {
+        if (isTransfer(item)) this.sendNext(item)
+        else this.options.send(item)
+      } catch (error) {
+        this.options.onError(isTransfer(item) ? item.message : item, error)
+        continue
+      }
+      if (isTransfer(item) && item.next < item.total) {
+        this.start(item)
+        this.waiting.get(flow)!.push(...queue)
+        return
+      }
+    }
+  }
+
+  private sendNext(transfer: Transfer) {
+    const { chunkSize } = this.options
+    const index = transfer.next
+    const params: ChunkParams = {
+      id: transfer.id,
+      index,
+      total: transfer.total,
+      data: transfer.data.slice(index * chunkSize, (index + 1) * chunkSize),
+    }
+
+    this.options.send({
+      from: transfer.message.from,
+      to: transfer.message.to,
+      metadata: { timestamp: Date.now() },
+      payload: { jsonrpc: '2.0', method: CHUNK_METHOD, params },
+    })
+    transfer.next++
+  }
+}
@@ -0,0 +1,218 @@
+import type { Message } from '../drivers/BaseDriver'
+import { extendedJsonCodec, bytesToBase64, base64ToBuffer } from '../utils/codec'
+import { SECURE_METHOD } from '../utils/constants'
+
+export interface SecurityKey {
+  /** Sent with every message so the receiver picks the same key. */
+  id: string
+  /** Shared secret. Signing and encryption keys are derived from it with HKDF. */
+  secret: string | BufferSource
+}
+
+export interface SecurityOptions {
+  /** The first key signs outgoing messages, every key is accepted on receive. */
+  keys: SecurityKey[]
+  /** Encrypt payloads with AES-GCM in addition to signing them. Defaults to false. */
+  encrypt?: boolean
+  /** Messages whose timestamp is further than this from the local clock are rejected (ms). */
+  maxAge?: number
+}
+
+export interface SecureParams {
+  kid: string
+  nonce: string
+  timestamp: number
+  /** Set when `data` is encrypted. */
+  iv?: string
+  /** The message encoded with `extendedJsonCodec`, or its base64 ciphertext. */
+  data: string
+  signature: string
+}
+
+interface DerivedKeys {
+  hmac: CryptoKey
+  aes: CryptoKey
+}
+
+const encoder = new TextEncoder()
+
+function randomBase64(length: number): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(length)))
+}
+
+function isSecureParams(params: unknown): params is SecureParams {
+  const secure = params as SecureParams
+  return (
+    !!secure &&
+    typeof secure.kid === 'string' &&
+    typeof secure.nonce === 'string' &&
+    typeof secure.timestamp === 'number' &&
+    typeof secure.data === 'string' &&
+    typeof secure.signature === 'string' &&
+    (secure.iv === undefined || typeof secure.iv === 'string')
+  )
+}
+
+async function deriveKeys(secret: string | BufferSource): Promise<DerivedKeys> {
+  const raw = typeof secret === 'string' ? encoder.encode(secret) : secret
+  const base = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey'])
+  const derive = (
+    info: string,
+    algorithm: HmacKeyGenParams | AesKeyGenParams,
+    usages: KeyUsage[],
+  ) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode(info) },
+      base,
+      algorithm,
+      false,
+      usages,
+    )
+
+  const [hmac, aes] = await Promise.all([
+    derive('message-nexus hmac', { name: 'HMAC', hash: 'SHA-256', length: 256 }, [
+      'sign',
+      'verify',
+    ]),
+    derive('message-nexus aes-gcm', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+  ])
+  return { hmac, aes }
+}
+
+/**
+ * Signs and optionally encrypts whole messages into `$/secure` notifications, and verifies
+ * them on the way in. Each nonce is remembered for twice `maxAge`, long enough that a replay
+ * is either a known nonce or has a timestamp outside the window.
+ */
+export class EnvelopeSecurity {
+  private keys: Map<string, Promise<DerivedKeys>> = new Map()
+  private signingKeyId = ''
+  private nonces: Map<string, number> = new Map()
+  private encrypt: boolean
+  private maxAge: number
+
+  constructor(options: SecurityOptions) {
+    this.encrypt = options.encrypt ?? false
+    this.maxAge = options.maxAge ?? 60000
+    this.setKeys(options.keys)
+  }
+
+  /**
+   * Replaces the key ring.
+   */
+  setKeys(keys: SecurityKey[]): void {
+    if (keys.length === 0) {
+      throw new TypeError('At least one security key is required')
+    }
+    this.keys = new Map(keys.map((key) => [key.id, deriveKeys(key.secret)]))
+    this.signingKeyId = keys[0].id
+  }
+
+  async seal(message: Message): Promise<Message> {
+    const kid = this.signingKeyId
+    const keys = await this.keys.get(kid)!
+    const encoded = extendedJsonCodec.encode(message) as string
+
+    let data = encoded
+    let iv: string | undefined
+    if (this.encrypt) {
+      const ivBytes = crypto.getRandomValues(new Uint8Array(12))
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: ivBytes },
+        keys.aes,
+        encoder.encode(encoded),
+      )
+      data = bytesToBase64(new Uint8Array(ciphertext))
+      iv = bytesToBase64(ivBytes)
+    }
+
+    const header = { kid, nonce: randomBase64(16), timestamp: Date.now(), iv, data }
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      keys.hmac,
+      this.signingInput(message, header),
+    )
+    const params: SecureParams = { ...header, signature: bytesToBase64(new Uint8Array(signature)) }
+    if (iv === undefined) delete params.iv
+
+    return {
+      from: message.from,
+      to: message.to,
+      metadata: { timestamp: header.timestamp },
+      payload: { jsonrpc: '2.0', method: SECURE_METHOD, params },
+    }
+  }
+
+  /**
+   * Verifies a `$/secure` envelope and returns the message it carries.
+   * Throws when the envelope is malformed, forged, replayed or signed with an unknown key.
+   */
+  async open(envelope: Message): Promise<unknown> {
+    const params = (envelope.payload as { params?: unknown }).params
+    if (!isSecureParams(params)) throw new Error('Malformed secure envelope')
+
+    const keys = this.keys.get(params.kid)
+    if (!keys) throw new Error(`Unknown key "${params.kid}"`)
+    const { hmac, aes } = await keys
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      hmac,
+      new Uint8Array(base64ToBuffer(params.signature)),
+      this.signingInput(envelope, params),
+    )
+    if (!valid) throw new Error('Invalid signature')
+
+    const now = Date.now()
+    if (Math.abs(now - params.timestamp) > this.maxAge) throw new Error('Message expired')
+    this.pruneNonces(now)
+    const nonceKey = `${envelope.from}:${params.nonce}`
+    if (this.nonces.has(nonceKey)) throw new Error('Replayed message')
+    this.nonces.set(nonceKey, now + this.maxAge * 2)
+
+    let encoded = params.data
+    if (params.iv !== undefined) {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(base64ToBuffer(params.iv)) },
+        aes,
+        new Uint8Array(base64ToBuffer(params.data)),
+      )
+      encoded = new TextDecoder().decode(plaintext)
+    }
+
+    const message = extendedJsonCodec.decode(encoded) as Message
+    if (message?.from !== envelope.from || message.to !== envelope.to) {
+      throw new Error('Sender or recipient does not match the envelope')
+    }
+    return message
+  }
+
+  clear(): void {
+    this.nonces.clear()
+  }
+
+  private signingInput(
+    envelope: Message,
+    header: Pick<SecureParams, 'kid' | 'nonce' | 'timestamp' | 'iv' | 'data'>,
+  ): Uint8Array<ArrayBuffer> {
+    return encoder.encode(
+      JSON.stringify([
+        envelope.from,
+        envelope.to ?? null,
+        header.kid,
+        header.nonce,
+        header.timestamp,
+        header.iv ?? null,
+        header.data,
+      ]),
+    )
+  }
+
+  /** Nonces are stored in arrival order with a fixed lifetime, so expired ones come first. */
+  private pruneNonces(now: number) {
+    for (const [nonce, expiry] of this.nonces) {
+      if (expiry > now) break
+      this.nonces.delete(nonce)
+    }
+  }
+}
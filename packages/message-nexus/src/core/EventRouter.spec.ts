@@ -47,10 +47,20 @@ describe('EventRouter validation', () => {
 
   it('should reject invalid payload format', () => {
     expect(EventRouter.validateMessage({ ...baseEnvelope, payload: null })).toBe(false)
-    expect(EventRouter.validateMessage({ ...baseEnvelope, payload: [] })).toBe(false)
     expect(EventRouter.validateMessage({ ...baseEnvelope, payload: 'string' })).toBe(false)
   })
 
+  it('should accept batch envelopes and leave entries to validatePayload', () => {
+    expect(EventRouter.validateMessage({ ...baseEnvelope, payload: [] })).toBe(true)
+    expect(EventRouter.validateMessage({ ...baseEnvelope, payload: [1, 2] })).toBe(true)
+    expect(EventRouter.validateMessage({ from: '', payload: [] })).toBe(false)
+
+    expect(EventRouter.validatePayload({ jsonrpc: '2.0', method: 'test', id: 1 })).toBe(true)
+    expect(EventRouter.validatePayload({ jsonrpc: '2.0', id: 1, result: 'ok' })).toBe(true)
+    expect(EventRouter.validatePayload(1)).toBe(false)
+    expect(EventRouter.validatePayload([])).toBe(false)
+  })
+
   it('should reject invalid jsonrpc version', () => {
     expect(EventRouter.validateMessage({
         ...baseEnvelope,
@@ -113,3 +123,98 @@ describe('EventRouter clearing', () => {
   })
 })
 
+
+describe('EventRouter patterns', () => {
+  it('should prefer exact handlers over patterns', () => {
+    const router = new EventRouter()
+    const exact = () => 'exact'
+    const pattern = () => 'pattern'
+    router.handle('files.*', pattern)
+    router.handle('files.read', exact)
+
+    expect(router.getInvokeHandler('files.read')).toBe(exact)
+    expect(router.getInvokeHandler('files.write')).toBe(pattern)
+    expect(router.getInvokeHandler('users.get')).toBeUndefined()
+  })
+
+  it('should prefer the most specific pattern regardless of registration order', () => {
+    const router = new EventRouter()
+    const any = () => 'any'
+    const files = () => 'files'
+    const images = () => 'images'
+    router.handle('*', any)
+    router.handle('files.*', files)
+    router.handle('files.images.*', images)
+
+    expect(router.getInvokeHandler('files.images.resize')).toBe(images)
+    expect(router.getInvokeHandler('files.read')).toBe(files)
+    expect(router.getInvokeHandler('users.get')).toBe(any)
+  })
+
+  it('should fall back to the default handler', () => {
+    const router = new EventRouter()
+    const fallback = () => 'fallback'
+    router.setDefaultHandler(fallback)
+
+    expect(router.getInvokeHandler('anything')).toBe(fallback)
+    expect(router.getInvokeHandler('$/internal')).toBeUndefined()
+
+    router.setDefaultHandler(null)
+    expect(router.getInvokeHandler('anything')).toBeUndefined()
+  })
+
+  it('should not match reserved methods with application patterns', () => {
+    const router = new EventRouter()
+    const any = () => {}
+    const reserved = () => {}
+    router.onNotification('*', any)
+    router.onNotification('$/leader/*', reserved)
+
+    expect(router.matchNotificationHandlers('$/leader/heartbeat')).toEqual([reserved])
+    expect(router.matchNotificationHandlers('update')).toEqual([any])
+  })
+
+  it('should keep getNotificationHandlers limited to exact handlers', () => {
+    const router = new EventRouter()
+    const exact = () => {}
+    router.onNotification('scene.*', () => {})
+    router.onNotification('scene.update', exact)
+
+    expect(router.getNotificationHandlers('scene.update')).toEqual(new Set([exact]))
+    expect(router.getNotificationHandlers('scene.delete')).toBeUndefined()
+  })
+
+  it('should run exact notification handlers before pattern handlers', () => {
+    const router = new EventRouter()
+    const exact = () => {}
+    const pattern = () => {}
+    router.onNotification('scene.*', pattern)
+    router.onNotification('scene.update', exact)
+
+    expect(router.matchNotificationHandlers('scene.update')).toEqual([exact, pattern])
+  })
+
+  it('should remove pattern handlers', () => {
+    const router = new EventRouter()
+    const handler = () => {}
+    const dispose = router.handle('files.*', () => 'res')
+    router.onNotification('files.*', handler)
+
+    expect(router.invokeHandlersCount).toBe(1)
+    expect(router.notificationHandlersCount).toBe(1)
+
+    dispose()
+    router.offNotification('files.*', handler)
+    expect(router.getInvokeHandler('files.read')).toBeUndefined()
+    expect(router.matchNotificationHandlers('files.read')).toEqual([])
+    expect(router.notificationHandlersCount).toBe(0)
+  })
+
+  it('should treat regular expression characters in patterns literally', () => {
+    const router = new EventRouter()
+    router.handle('a.b*', () => 'res')
+
+    expect(router.getInvokeHandler('a.bc')).toBeDefined()
+    expect(router.getInvokeHandler('aXbc')).toBeUndefined()
+  })
+})
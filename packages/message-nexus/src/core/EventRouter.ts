@@ -1,11 +1,30 @@
-import type { Message, JsonRpcRequest, JsonRpcNotification } from '../drivers/BaseDriver'
+import type { Message, JsonRpcPayload } from '../drivers/BaseDriver'
 import { NexusError, NexusErrorCode } from '../errors'
+import type { MethodDescription } from '../utils/openrpc'
+import { matchesPattern } from '../utils/pattern'
 
 export interface InvokeContext {
   messageId?: string
+  /**
+   * Method name of the incoming message, useful for pattern and default handlers.
+   */
+  method?: string
   from: string
   to?: string
   metadata?: Record<string, unknown>
+  /**
+   * Principal returned by `auth.authenticate` for the sender. Only set for authenticated peers.
+   */
+  auth?: unknown
+  /**
+   * Aborted when the caller cancels the request. Only present for invoke handlers.
+   */
+  signal?: AbortSignal
+  /**
+   * Reports progress to the caller and keeps its request from timing out.
+   * Only present for invoke handlers; a no-op unless the caller passed `onProgress`.
+   */
+  reportProgress?: (value: number, message?: string) => void
 }
 
 export type InvokeHandler<P = unknown, R = unknown> = (
@@ -15,29 +34,128 @@ export type InvokeHandler<P = unknown, R = unknown> = (
 
 export type NotificationHandler<P = unknown> = (params: P, context: InvokeContext) => void
 
+/**
+ * Documentation kept next to an invoke handler and returned by `rpc.discover`.
+ */
+export type MethodInfo = Omit<MethodDescription, 'name' | 'stream'>
+
+export type StreamHandler<P = unknown, T = unknown> = (
+  params: P,
+  context: InvokeContext,
+) => AsyncIterable<T> | Iterable<T>
+
+interface PatternEntry<H> {
+  pattern: string
+  /** Number of literal characters; more specific patterns take precedence. */
+  specificity: number
+  handler: H
+}
+
+/**
+ * Method names containing `*` are patterns, see `matchesPattern()`.
+ */
+export function isMethodPattern(method: string): boolean {
+  return method.includes('*')
+}
+
+/**
+ * Reserved `$/` methods are only matched by patterns that start with `$/` themselves,
+ * so catch-all handlers do not see the library's own traffic.
+ */
+function patternMatches(entry: PatternEntry<unknown>, method: string): boolean {
+  if (method.startsWith('$/') && !entry.pattern.startsWith('$/')) return false
+  return matchesPattern(method, entry.pattern)
+}
+
+function createPatternEntry<H>(pattern: string, handler: H): PatternEntry<H> {
+  return {
+    pattern,
+    specificity: pattern.replace(/\*/g, '').length,
+    handler,
+  }
+}
+
+/**
+ * Keeps entries ordered by specificity; entries of equal specificity keep registration order.
+ */
+function insertPatternEntry<H>(entries: PatternEntry<H>[], entry: PatternEntry<H>) {
+  const index = entries.findIndex((existing) => existing.specificity < entry.specificity)
+  if (index === -1) entries.push(entry)
+  else entries.splice(index, 0, entry)
+}
+
+/**
+ * Handlers are looked up by exact method name first. Pattern handlers apply to methods
+ * without an exact handler, the most specific pattern winning. The default handler answers
+ * requests nothing else matched. Every matching notification handler runs, exact ones first.
+ */
 export class EventRouter<
   InvokeMap extends object = Record<string, any>,
   NotificationMap extends object = Record<string, any>,
 > {
   private invokeHandlers: Map<string, InvokeHandler> = new Map()
   private notificationHandlers: Map<string, Set<NotificationHandler>> = new Map()
+  private streamHandlers: Map<string, StreamHandler> = new Map()
+  private invokePatterns: PatternEntry<InvokeHandler>[] = []
+  private notificationPatterns: PatternEntry<NotificationHandler>[] = []
+  private defaultHandler: InvokeHandler | null = null
+  private methodInfo: Map<string, MethodInfo> = new Map()
 
   handle<K extends keyof InvokeMap>(
     method: string,
     handler: InvokeHandler<any, any>,
+    info?: MethodInfo,
   ): () => boolean {
-    this.invokeHandlers.set(method, handler)
-    return () => this.invokeHandlers.delete(method)
+    if (info) this.methodInfo.set(method, info)
+    else this.methodInfo.delete(method)
+    if (isMethodPattern(method)) {
+      this.removeHandler(method)
+      insertPatternEntry(this.invokePatterns, createPatternEntry(method, handler))
+    } else {
+      this.invokeHandlers.set(method, handler)
+    }
+    return () => this.removeHandler(method)
   }
 
   removeHandler(method: string): boolean {
-    return this.invokeHandlers.delete(method)
+    this.methodInfo.delete(method)
+    if (!isMethodPattern(method)) {
+      return this.invokeHandlers.delete(method)
+    }
+    const index = this.invokePatterns.findIndex((entry) => entry.pattern === method)
+    if (index === -1) return false
+    this.invokePatterns.splice(index, 1)
+    return true
+  }
+
+  /**
+   * Handles requests no exact or pattern handler matched. Pass null to restore the
+   * `MethodNotFound` reply.
+   */
+  setDefaultHandler(handler: InvokeHandler<any, any> | null): void {
+    this.defaultHandler = handler
+  }
+
+  handleStream<K extends keyof InvokeMap>(
+    method: string,
+    handler: StreamHandler<any, any>,
+  ): () => boolean {
+    this.streamHandlers.set(method, handler)
+    return () => this.streamHandlers.delete(method)
+  }
+
+  removeStreamHandler(method: string): boolean {
+    return this.streamHandlers.delete(method)
   }
 
   onNotification<K extends keyof NotificationMap>(
     method: string,
     handler: NotificationHandler<any>,
   ): () => void {
+    if (isMethodPattern(method)) {
+      insertPatternEntry(this.notificationPatterns, createPatternEntry(method, handler))
+      return () => this.offNotification(method, handler)
+    }
     if (!this.notificationHandlers.has(method)) {
       this.notificationHandlers.set(method, new Set())
     }
@@ -49,6 +167,13 @@ export class EventRouter<
     method: string,
     handler: NotificationHandler<any>,
   ): void {
+    if (isMethodPattern(method)) {
+      const index = this.notificationPatterns.findIndex(
+        (entry) => entry.pattern === method && entry.handler === handler,
+      )
+      if (index !== -1) this.notificationPatterns.splice(index, 1)
+      return
+    }
     const handlers = this.notificationHandlers.get(method)
     if (handlers) {
       handlers.delete(handler)
@@ -59,31 +184,87 @@ export class EventRouter<
   }
 
   hasInvokeHandler(method: string): boolean {
+    if (isMethodPattern(method)) {
+      return this.invokePatterns.some((entry) => entry.pattern === method)
+    }
     return this.invokeHandlers.has(method)
   }
 
+  /**
+   * Resolves the handler for `method`: exact match, then the most specific pattern,
+   * then the default handler.
+   */
   getInvokeHandler(method: string): InvokeHandler | undefined {
-    return this.invokeHandlers.get(method)
+    const exact = this.invokeHandlers.get(method)
+    if (exact) return exact
+    const entry = this.invokePatterns.find((entry) => patternMatches(entry, method))
+    if (entry) return entry.handler
+    if (method.startsWith('$/')) return undefined
+    return this.defaultHandler ?? undefined
+  }
+
+  hasStreamHandler(method: string): boolean {
+    return this.streamHandlers.has(method)
   }
 
+  getStreamHandler(method: string): StreamHandler | undefined {
+    return this.streamHandlers.get(method)
+  }
+
+  /**
+   * Handlers registered for exactly `method`. Pattern handlers are not included, see
+   * `matchNotificationHandlers()`.
+   */
   getNotificationHandlers(method: string): Set<NotificationHandler> | undefined {
     return this.notificationHandlers.get(method)
   }
 
+  /**
+   * Exact handlers of `method` followed by the matching pattern handlers, most specific first.
+   */
+  matchNotificationHandlers(method: string): NotificationHandler[] {
+    const handlers = Array.from(this.notificationHandlers.get(method) ?? [])
+    this.notificationPatterns.forEach((entry) => {
+      if (patternMatches(entry, method)) handlers.push(entry.handler)
+    })
+    return handlers
+  }
+
+  /**
+   * Describes the exact invoke and stream handlers, sorted by name. Patterns and the
+   * default handler have no fixed method name and are left out.
+   */
+  describeMethods(): MethodDescription[] {
+    const methods: MethodDescription[] = [
+      ...Array.from(this.invokeHandlers.keys()).map((name) => ({
+        name,
+        ...this.methodInfo.get(name),
+      })),
+      ...Array.from(this.streamHandlers.keys()).map((name) => ({ name, stream: true })),
+    ]
+    return methods.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
   get invokeHandlersCount(): number {
-    return this.invokeHandlers.size
+    return this.invokeHandlers.size + this.invokePatterns.length
   }
 
   get notificationHandlersCount(): number {
-    return this.notificationHandlers.size
+    const patterns = new Set(this.notificationPatterns.map((entry) => entry.pattern))
+    return this.notificationHandlers.size + patterns.size
   }
 
   clear(type?: 'invoke' | 'notification'): void {
     if (!type || type === 'invoke') {
       this.invokeHandlers.clear()
+      this.streamHandlers.clear()
+      this.invokePatterns = []
+      this.defaultHandler = null
+      this.methodInfo.clear()
     }
     if (!type || type === 'notification') {
       this.notificationHandlers.clear()
+      this.notificationPatterns = []
     }
   }
 
@@ -96,18 +277,25 @@ export class EventRouter<
     if (env.to !== undefined && (typeof env.to !== 'string' || env.to.trim() === '')) return false
     if (env.metadata !== undefined && (typeof env.metadata !== 'object' || env.metadata === null)) return false
 
-    // 2. Payload Validation
-    const payload = env.payload as any
+    // 2. Batches are validated entry by entry, so invalid entries can be answered individually
+    if (Array.isArray(env.payload)) return true
+
+    return EventRouter.validatePayload(env.payload)
+  }
+
+  static validatePayload(data: unknown): data is JsonRpcPayload {
+    // 1. Payload Validation
+    const payload = data as any
     if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return false
     if (payload.jsonrpc !== '2.0') return false
 
-    // 3. ID Validation (if present, must be string, number, or null)
+    // 2. ID Validation (if present, must be string, number, or null)
     if ('id' in payload) {
       const id = payload.id
       if (id !== null && typeof id !== 'string' && typeof id !== 'number') return false
     }
 
-    // 4. Branching Logic (Request vs Notification vs Response)
+    // 3. Branching Logic (Request vs Notification vs Response)
     const hasMethod = typeof payload.method === 'string' && payload.method.trim() !== ''
     const hasResult = 'result' in payload
     const hasError = payload.error !== undefined && typeof payload.error === 'object' && payload.error !== null
@@ -0,0 +1,243 @@
+import type MessageNexus from '../index'
+import type { InvokeContext } from './EventRouter'
+import { NexusError, NexusErrorCode } from '../errors'
+import { safeExecute } from '../utils/safe'
+import {
+  LEADER_CLAIM_METHOD,
+  LEADER_HEARTBEAT_METHOD,
+  LEADER_RESIGN_METHOD,
+} from '../utils/constants'
+
+export interface LeaderElectorOptions {
+  /** Elections with different names run independently over the same nexus. Defaults to 'default'. */
+  name?: string
+  /** Delay between leader heartbeats. Defaults to 1000ms. */
+  heartbeatInterval?: number
+  /** Silence after which followers elect a new leader. Defaults to 3000ms, plus random jitter. */
+  electionTimeout?: number
+}
+
+export type LeadershipChangeCallback = (isLeader: boolean, term: number) => void
+
+interface LeaderMessage {
+  name: string
+  term: number
+}
+
+type Role = 'follower' | 'candidate' | 'leader'
+
+/**
+ * Elects one leader among the instances reachable through a nexus, e.g. one tab per origin.
+ *
+ * Every election increments the term. Messages with an older term are ignored and a leader
+ * that sees a newer term steps down, so after a partition heals only one leader remains.
+ * Candidates and leaders of the same term are ordered by instance ID.
+ *
+ * Call `close()` before destroying the nexus, the elector does not own it.
+ */
+export class LeaderElector {
+  private nexus: MessageNexus<any, any>
+  private name: string
+  private heartbeatInterval: number
+  private electionTimeout: number
+
+  private role: Role = 'follower'
+  private currentTerm = 0
+  private currentLeader: string | null = null
+  private electionTimer: ReturnType<typeof setTimeout> | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private callbacks: Set<LeadershipChangeCallback> = new Set()
+  private leaderWaiters: { resolve: () => void; reject: (reason?: unknown) => void }[] = []
+  private disposers: (() => void)[]
+  private closed = false
+
+  constructor(nexus: MessageNexus<any, any>, options: LeaderElectorOptions = {}) {
+    this.nexus = nexus
+    this.name = options.name ?? 'default'
+    this.heartbeatInterval = options.heartbeatInterval ?? 1000
+    this.electionTimeout = options.electionTimeout ?? 3000
+
+    this.disposers = [
+      nexus.onNotification(LEADER_HEARTBEAT_METHOD, (params: LeaderMessage, context) =>
+        this.accept(params, context, () => this.onHeartbeat(params, context.from)),
+      ),
+      nexus.onNotification(LEADER_CLAIM_METHOD, (params: LeaderMessage, context) =>
+        this.accept(params, context, () => this.onClaim(params, context.from)),
+      ),
+      nexus.onNotification(LEADER_RESIGN_METHOD, (params: LeaderMessage, context) =>
+        this.accept(params, context, () => this.onResign(params, context.from)),
+      ),
+    ]
+    this.resetElectionTimer()
+  }
+
+  get isLeader(): boolean {
+    return this.role === 'leader'
+  }
+
+  get leaderId(): string | null {
+    return this.currentLeader
+  }
+
+  /**
+   * Term of the current leadership. Leaders can attach it to their writes to fence out stale leaders.
+   */
+  get term(): number {
+    return this.currentTerm
+  }
+
+  onLeadershipChange(callback: LeadershipChangeCallback) {
+    this.callbacks.add(callback)
+    return () => {
+      this.callbacks.delete(callback)
+    }
+  }
+
+  /**
+   * Resolves once this instance becomes leader. Rejects if the elector is closed first.
+   */
+  whenLeader(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(
+        new NexusError('Leader elector closed', NexusErrorCode.InstanceDestroyed),
+      )
+    }
+    if (this.isLeader) return Promise.resolve()
+    return new Promise((resolve, reject) => this.leaderWaiters.push({ resolve, reject }))
+  }
+
+  /**
+   * Leaves the election. A leader resigns so the others elect a successor right away.
+   */
+  close(): void {
+    if (this.closed) return
+    if (this.isLeader) {
+      this.send(LEADER_RESIGN_METHOD)
+    }
+    this.closed = true
+    this.setRole('follower')
+    this.clearTimers()
+    this.disposers.forEach((dispose) => dispose())
+    this.leaderWaiters.forEach((waiter) =>
+      waiter.reject(new NexusError('Leader elector closed', NexusErrorCode.InstanceDestroyed)),
+    )
+    this.leaderWaiters = []
+    this.callbacks.clear()
+  }
+
+  private accept(params: LeaderMessage, context: InvokeContext, handle: () => void) {
+    if (this.closed || params?.name !== this.name || context.from === this.nexus.instanceId) return
+    if (typeof params.term !== 'number') return
+    handle()
+  }
+
+  private onHeartbeat({ term }: LeaderMessage, from: string) {
+    if (term < this.currentTerm) {
+      // A stale leader from before a partition, tell it about the newer term
+      if (this.isLeader) this.send(LEADER_HEARTBEAT_METHOD)
+      return
+    }
+    if (term === this.currentTerm && this.isLeader && this.nexus.instanceId < from) {
+      // Two leaders of the same term, the lower instance ID keeps the lead
+      this.send(LEADER_HEARTBEAT_METHOD)
+      return
+    }
+    this.currentTerm = term
+    this.currentLeader = from
+    this.setRole('follower')
+    this.resetElectionTimer()
+  }
+
+  private onClaim({ term }: LeaderMessage, from: string) {
+    if (term < this.currentTerm) {
+      if (this.isLeader) this.send(LEADER_HEARTBEAT_METHOD)
+      return
+    }
+    if (term === this.currentTerm) {
+      if (this.isLeader) {
+        this.send(LEADER_HEARTBEAT_METHOD)
+        return
+      }
+      if (this.role === 'candidate' && this.nexus.instanceId < from) return
+    }
+    this.currentTerm = term
+    this.currentLeader = null
+    this.setRole('follower')
+    this.resetElectionTimer()
+  }
+
+  private onResign({ term }: LeaderMessage, from: string) {
+    if (term !== this.currentTerm || from !== this.currentLeader) return
+    this.currentLeader = null
+    this.startElection()
+  }
+
+  /**
+   * Claims the next term and becomes leader unless someone objects within one heartbeat interval.
+   */
+  private startElection() {
+    if (this.closed) return
+    this.currentTerm++
+    this.currentLeader = null
+    this.setRole('candidate')
+    this.send(LEADER_CLAIM_METHOD)
+
+    this.clearTimers()
+    const term = this.currentTerm
+    this.electionTimer = setTimeout(() => {
+      if (this.role === 'candidate' && this.currentTerm === term) {
+        this.becomeLeader()
+      }
+    }, this.heartbeatInterval)
+  }
+
+  private becomeLeader() {
+    this.clearTimers()
+    this.currentLeader = this.nexus.instanceId
+    this.setRole('leader')
+    this.send(LEADER_HEARTBEAT_METHOD)
+    this.heartbeatTimer = setInterval(
+      () => this.send(LEADER_HEARTBEAT_METHOD),
+      this.heartbeatInterval,
+    )
+  }
+
+  private resetElectionTimer() {
+    this.clearTimers()
+    // Jitter keeps followers from all claiming the same term at once
+    const delay = this.electionTimeout + Math.random() * this.electionTimeout * 0.5
+    this.electionTimer = setTimeout(() => this.startElection(), delay)
+  }
+
+  private setRole(role: Role) {
+    const wasLeader = this.isLeader
+    this.role = role
+    if (wasLeader === this.isLeader) return
+
+    if (this.isLeader) {
+      this.leaderWaiters.forEach((waiter) => waiter.resolve())
+      this.leaderWaiters = []
+    }
+    this.callbacks.forEach((callback) =>
+      safeExecute(() => callback(this.isLeader, this.currentTerm)),
+    )
+  }
+
+  private send(method: string) {
+    const params: LeaderMessage = { name: this.name, term: this.currentTerm }
+    this.nexus.notify({ method, params }).catch(() => {
+      // Delivery failures surface through the nexus error handler
+    })
+  }
+
+  private clearTimers() {
+    if (this.electionTimer) {
+      clearTimeout(this.electionTimer)
+      this.electionTimer = null
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import type BaseDriver from '../drivers/BaseDriver'
+import type {
+  Message,
+  JsonRpcPayload,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+} from '../drivers/BaseDriver'
+import { Logger, type LoggerInterface, type SimpleLogger } from '../utils/logger'
+import { NexusError, NexusErrorCode } from '../errors'
+import { WRAPPER_METHODS } from '../utils/constants'
+import { matchesPattern, type MethodPattern } from '../utils/pattern'
+import { EventRouter } from './EventRouter'
+
+/**
+ * Decides which requests and notifications may cross a boundary. Responses always pass.
+ * A function receives the method and the full envelope.
+ */
+export type MethodPolicy =
+  | { allow?: MethodPattern[]; deny?: MethodPattern[] }
+  | ((method: string, message: Message) => boolean)
+
+export interface RouterPortOptions {
+  /** Filters messages entering the router through this driver. */
+  inbound?: MethodPolicy
+  /** Filters messages leaving the router through this driver. */
+  outbound?: MethodPolicy
+}
+
+export interface NexusRouterOptions {
+  /** Messages that crossed more routers are dropped. Defaults to 8. */
+  maxHops?: number
+  logger?: LoggerInterface | SimpleLogger
+}
+
+interface Port extends RouterPortOptions {
+  name: string
+  driver: BaseDriver
+}
+
+function isAllowed(policy: MethodPolicy | undefined, method: string, message: Message): boolean {
+  if (!policy) return true
+  if (typeof policy === 'function') return policy(method, message)
+  if (policy.deny?.some((pattern) => matchesPattern(method, pattern))) return false
+  return !policy.allow || policy.allow.some((pattern) => matchesPattern(method, pattern))
+}
+
+/**
+ * Forwards envelopes between drivers, e.g. iframe <-> host page <-> WebSocket server.
+ *
+ * Routes are learned from the `from` field of incoming envelopes. Envelopes addressed to a
+ * known instance go to its driver only; others are flooded to every other driver.
+ * `metadata.hops` counts the routers an envelope crossed, so loops die out at `maxHops`.
+ */
+export class NexusRouter {
+  private ports: Map<string, Port> = new Map()
+  private routes: Map<string, string> = new Map()
+  private maxHops: number
+  private logger: LoggerInterface | SimpleLogger
+
+  constructor(options: NexusRouterOptions = {}) {
+    this.maxHops = options.maxHops ?? 8
+    this.logger = options.logger ?? new Logger('NexusRouter')
+  }
+
+  /**
+   * Starts forwarding messages of `driver`. Returns a function that detaches it again.
+   */
+  attach(name: string, driver: BaseDriver, options: RouterPortOptions = {}) {
+    if (this.ports.has(name)) {
+      throw new Error(`NexusRouter already has a driver named ${name}`)
+    }
+
+    const port: Port = { name, driver, ...options }
+    this.ports.set(name, port)
+    driver.onMessage = (data) => this.route(port, data)
+
+    return () => this.detach(name)
+  }
+
+  detach(name: string): void {
+    const port = this.ports.get(name)
+    if (!port) return
+    port.driver.onMessage = null
+    this.ports.delete(name)
+    this.routes.forEach((portName, instanceId) => {
+      if (portName === name) this.routes.delete(instanceId)
+    })
+  }
+
+  /**
+   * Learned routes, mapping instance IDs to driver names.
+   */
+  getRoutes(): Record<string, string> {
+    return Object.fromEntries(this.routes)
+  }
+
+  destroy(): void {
+    Array.from(this.ports.keys()).forEach((name) => this.detach(name))
+  }
+
+  private route(source: Port, data: unknown) {
+    if (!EventRouter.validateMessage(data)) {
+      this.logger.warn('Dropping invalid message', { port: source.name })
+      return
+    }
+
+    const message = data as Message
+    const hops = (typeof message.metadata?.hops === 'number' ? message.metadata.hops : 0) + 1
+    if (hops > this.maxHops) {
+      this.logger.warn('Dropping message that exceeded max hops', {
+        port: source.name,
+        from: message.from,
+        hops,
+      })
+      return
+    }
+
+    this.routes.set(message.from, source.name)
+
+    const inbound = this.applyPolicy(message, source.inbound, source.name)
+    this.reject(source, message, inbound.rejected)
+    if (!inbound.message) return
+
+    const target = message.to ? this.routes.get(message.to) : undefined
+    if (target === source.name) return
+
+    const forwarded: Message = {
+      ...inbound.message,
+      metadata: { ...message.metadata, hops },
+    }
+
+    if (target) {
+      const port = this.ports.get(target)!
+      const outbound = this.applyPolicy(forwarded, port.outbound, port.name)
+      if (outbound.message) this.send(port, outbound.message)
+      this.reject(source, message, outbound.rejected)
+      return
+    }
+
+    // Unknown or no recipient: flood, and leave denied requests to the drivers that may receive them
+    this.ports.forEach((port) => {
+      if (port === source) return
+      const outbound = this.applyPolicy(forwarded, port.outbound, port.name)
+      if (outbound.message) this.send(port, outbound.message)
+    })
+  }
+
+  /**
+   * Removes the requests and notifications a policy denies, batch entries that are not valid
+   * JSON-RPC, and chunked, compressed or signed frames. Responses always pass.
+   * Returns the remaining message, if any, and error responses for denied requests.
+   */
+  private applyPolicy(
+    message: Message,
+    policy: MethodPolicy | undefined,
+    portName: string,
+  ): { message: Message | null; rejected: JsonRpcResponse[] } {
+    if (!policy) return { message, rejected: [] }
+
+    const isBatch = Array.isArray(message.payload)
+    const entries: JsonRpcPayload[] = isBatch
+      ? (message.payload as JsonRpcPayload[])
+      : [message.payload as JsonRpcPayload]
+    const allowed: JsonRpcPayload[] = []
+    const rejected: JsonRpcResponse[] = []
+
+    entries.forEach((entry) => {
+      if (!EventRouter.validatePayload(entry)) {
+        this.logger.warn('Dropping invalid batch entry', { port: portName })
+        return
+      }
+      if ('method' in entry && WRAPPER_METHODS.has(entry.method)) {
+        this.logger.warn('Dropping wrapped frame the policy cannot inspect', {
+          method: entry.method,
+          port: portName,
+        })
+        return
+      }
+      if (!('method' in entry) || isAllowed(policy, entry.method, message)) {
+        allowed.push(entry)
+        return
+      }
+      this.logger.warn('Method blocked by router policy', { method: entry.method, port: portName })
+      if ('id' in entry) {
+        rejected.push(this.createRejection(entry as JsonRpcRequest))
+      }
+    })
+
+    if (allowed.length === 0) return { message: null, rejected }
+    const payload = isBatch ? (allowed as (JsonRpcRequest | JsonRpcNotification)[]) : allowed[0]
+    return { message: { ...message, payload } as Message, rejected }
+  }
+
+  /**
+   * Answers denied requests so callers do not wait for their timeout.
+   */
+  private reject(source: Port, message: Message, rejected: JsonRpcResponse[]) {
+    if (rejected.length === 0) return
+    this.send(source, {
+      from: message.to ?? 'router',
+      to: message.from,
+      payload: Array.isArray(message.payload) ? rejected : rejected[0],
+    })
+  }
+
+  private createRejection(request: JsonRpcRequest): JsonRpcResponse {
+    const error = new NexusError(
+      `Method not found: ${request.method}`,
+      NexusErrorCode.MethodNotFound,
+    )
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: error.code, message: error.message, name: error.name },
+    }
+  }
+
+  private send(port: Port, message: Message) {
+    try {
+      port.driver.send(message)
+    } catch (error) {
+      this.logger.error('Failed to forward message', {
+        port: port.name,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+}
@@ -0,0 +1,128 @@
+export interface PeerInfo {
+  instanceId: string
+  protocolVersion: number
+  capabilities: string[]
+}
+
+export interface PeerHandshakeOptions {
+  /** Interval between `hello` retries until the first peer answers. */
+  retryInterval: number
+  sendHello: () => void
+  onPeerReady?: (peer: PeerInfo) => void
+}
+
+type Waiter = {
+  instanceId?: string
+  resolve: (peer: PeerInfo) => void
+  reject: (reason?: unknown) => void
+}
+
+/**
+ * Tracks peers that completed the hello/ack exchange and resolves `ready()` waiters.
+ * `hello` is re-sent periodically so a peer that loads later (e.g. an iframe) still answers.
+ */
+export class PeerHandshake {
+  private peers: Map<string, PeerInfo> = new Map()
+  private waiters: Waiter[] = []
+  private retryTimer: ReturnType<typeof setInterval> | null = null
+  private started = false
+  private retryInterval: number
+  private sendHello: () => void
+  private onPeerReady?: (peer: PeerInfo) => void
+
+  constructor(options: PeerHandshakeOptions) {
+    this.retryInterval = options.retryInterval
+    this.sendHello = options.sendHello
+    this.onPeerReady = options.onPeerReady
+  }
+
+  get isReady(): boolean {
+    return this.peers.size > 0
+  }
+
+  start(): void {
+    if (this.started) return
+    this.started = true
+    this.sendHello()
+    this.updateRetry()
+  }
+
+  /**
+   * Records a peer that said hello or acknowledged ours. Returns true for new peers.
+   */
+  addPeer(peer: PeerInfo): boolean {
+    const isNew = !this.peers.has(peer.instanceId)
+    this.peers.set(peer.instanceId, peer)
+    if (isNew) {
+      this.onPeerReady?.(peer)
+    }
+
+    this.waiters = this.waiters.filter((waiter) => {
+      if (waiter.instanceId && waiter.instanceId !== peer.instanceId) return true
+      waiter.resolve(peer)
+      return false
+    })
+    this.updateRetry()
+    return isNew
+  }
+
+  /**
+   * Forgets a peer that left. Once nobody is left, a started handshake says hello again.
+   */
+  removePeer(instanceId: string): boolean {
+    const removed = this.peers.delete(instanceId)
+    if (removed && this.started) this.updateRetry()
+    return removed
+  }
+
+  getPeer(instanceId: string): PeerInfo | undefined {
+    return this.peers.get(instanceId)
+  }
+
+  getPeers(): PeerInfo[] {
+    return Array.from(this.peers.values())
+  }
+
+  /**
+   * Resolves with the first peer that completes the handshake, or `instanceId` when given.
+   */
+  waitFor(instanceId?: string): Promise<PeerInfo> {
+    const known = instanceId ? this.peers.get(instanceId) : this.peers.values().next().value
+    if (known) return Promise.resolve(known)
+    const promise = new Promise<PeerInfo>((resolve, reject) =>
+      this.waiters.push({ instanceId, resolve, reject }),
+    )
+    // Say hello again even if already started, the awaited peer may have missed it
+    this.started = true
+    this.sendHello()
+    this.updateRetry()
+    return promise
+  }
+
+  clear(error: Error): void {
+    this.started = false
+    this.stopRetrying()
+    this.waiters.forEach((waiter) => waiter.reject(error))
+    this.waiters = []
+    this.peers.clear()
+  }
+
+  /**
+   * Keeps retrying while nobody answered or a specific peer is still awaited.
+   */
+  private updateRetry() {
+    const waiting = !this.isReady || this.waiters.length > 0
+    if (waiting && !this.retryTimer) {
+      this.retryTimer = setInterval(() => this.sendHello(), this.retryInterval)
+    } else if (!waiting) {
+      this.stopRetrying()
+    }
+  }
+
+  private stopRetrying() {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+}
@@ -0,0 +1,93 @@
+export interface PresencePeer {
+  instanceId: string
+  /** Metadata the peer announces with its heartbeats. */
+  metadata: Record<string, unknown>
+  joinedAt: number
+  lastSeen: number
+}
+
+export interface PresenceTrackerOptions {
+  interval: number
+  /** Time without any message after which a peer is considered gone. */
+  timeout: number
+  sendHeartbeat: (to?: string) => void
+  onJoin: (peer: PresencePeer) => void
+  onLeave: (peer: PresencePeer) => void
+}
+
+/**
+ * Keeps track of live peers from their heartbeats and evicts the ones that went silent.
+ */
+export class PresenceTracker {
+  private peers: Map<string, PresencePeer> = new Map()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private options: PresenceTrackerOptions
+
+  constructor(options: PresenceTrackerOptions) {
+    this.options = options
+  }
+
+  start(): void {
+    if (this.timer) return
+    this.options.sendHeartbeat()
+    this.timer = setInterval(() => {
+      this.sweep()
+      this.options.sendHeartbeat()
+    }, this.options.interval)
+  }
+
+  /**
+   * Records a heartbeat. A peer seen for the first time gets an immediate heartbeat back,
+   * so it does not have to wait for our next interval to learn about us.
+   */
+  heartbeat(instanceId: string, metadata: Record<string, unknown>): void {
+    const now = Date.now()
+    const peer = this.peers.get(instanceId)
+    if (peer) {
+      peer.metadata = metadata
+      peer.lastSeen = now
+      return
+    }
+
+    const joined: PresencePeer = { instanceId, metadata, joinedAt: now, lastSeen: now }
+    this.peers.set(instanceId, joined)
+    this.options.sendHeartbeat(instanceId)
+    this.options.onJoin(joined)
+  }
+
+  /**
+   * Any message proves the peer is alive.
+   */
+  touch(instanceId: string): void {
+    const peer = this.peers.get(instanceId)
+    if (peer) peer.lastSeen = Date.now()
+  }
+
+  leave(instanceId: string): void {
+    const peer = this.peers.get(instanceId)
+    if (!peer) return
+    this.peers.delete(instanceId)
+    this.options.onLeave(peer)
+  }
+
+  getPeers(): PresencePeer[] {
+    return Array.from(this.peers.values(), (peer) => ({ ...peer }))
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.peers.clear()
+  }
+
+  private sweep() {
+    const deadline = Date.now() - this.options.timeout
+    for (const peer of Array.from(this.peers.values())) {
+      if (peer.lastSeen < deadline) {
+        this.leave(peer.instanceId)
+      }
+    }
+  }
+}
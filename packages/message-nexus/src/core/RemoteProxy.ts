@@ -0,0 +1,25 @@
+export type ProxyInvoke = (
+  method: string,
+  params: unknown,
+  options?: Record<string, unknown>,
+) => Promise<unknown>
+
+/**
+ * Builds a proxy where property access collects method name segments and a call
+ * invokes the dotted method, e.g. `proxy.user.get(params)` invokes `user.get`.
+ */
+export function createRemoteProxy(invoke: ProxyInvoke, path: string[] = []): unknown {
+  return new Proxy(function () {}, {
+    get(_target, property) {
+      // Not a thenable, so a namespace can be returned from async functions or awaited safely
+      if (typeof property !== 'string' || property === 'then') return undefined
+      return createRemoteProxy(invoke, [...path, property])
+    },
+    apply(_target, _thisArg, args: unknown[]) {
+      if (path.length === 0) {
+        throw new TypeError('Remote proxy root is not callable, access a method first')
+      }
+      return invoke(path.join('.'), args[0], args[1] as Record<string, unknown> | undefined)
+    },
+  })
+}
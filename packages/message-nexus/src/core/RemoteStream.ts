@@ -0,0 +1,102 @@
+export interface RemoteStreamOptions {
+  highWaterMark: number
+  /** Called with the number of consumed chunks so the producer can send more. */
+  onPull: (count: number) => void
+  /** Called when the consumer stops iterating before the stream ended. */
+  onCancel: () => void
+}
+
+type Waiter<T> = {
+  resolve: (result: IteratorResult<T>) => void
+  reject: (reason?: unknown) => void
+}
+
+/**
+ * Caller side of a stream: buffers incoming chunks and exposes them as an async iterator.
+ */
+export class RemoteStream<T = unknown> implements AsyncIterableIterator<T> {
+  private buffer: T[] = []
+  private waiters: Waiter<T>[] = []
+  private finished = false
+  private failure: { error: unknown } | null = null
+  private consumed = 0
+  private pullBatch: number
+  private onPull: (count: number) => void
+  private onCancel: () => void
+
+  constructor(options: RemoteStreamOptions) {
+    this.pullBatch = Math.max(1, Math.ceil(options.highWaterMark / 2))
+    this.onPull = options.onPull
+    this.onCancel = options.onCancel
+  }
+
+  push(value: T): void {
+    if (this.finished) return
+    const waiter = this.waiters.shift()
+    if (waiter) {
+      waiter.resolve({ value, done: false })
+      this.markConsumed()
+    } else {
+      this.buffer.push(value)
+    }
+  }
+
+  end(): void {
+    if (this.finished) return
+    this.finished = true
+    this.waiters.forEach((waiter) => waiter.resolve({ value: undefined, done: true }))
+    this.waiters = []
+  }
+
+  fail(error: unknown): void {
+    if (this.finished) return
+    this.finished = true
+    if (this.waiters.length > 0) {
+      this.waiters.forEach((waiter) => waiter.reject(error))
+      this.waiters = []
+    } else {
+      this.failure = { error }
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as T
+      this.markConsumed()
+      return Promise.resolve({ value, done: false })
+    }
+    if (this.failure) {
+      const { error } = this.failure
+      this.failure = null
+      return Promise.reject(error)
+    }
+    if (this.finished) {
+      return Promise.resolve({ value: undefined, done: true })
+    }
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }))
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    if (!this.finished) {
+      this.end()
+      this.onCancel()
+    }
+    this.buffer = []
+    this.failure = null
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this
+  }
+
+  private markConsumed() {
+    if (this.finished) return
+    this.consumed++
+    if (this.consumed >= this.pullBatch) {
+      const count = this.consumed
+      this.consumed = 0
+      this.onPull(count)
+    }
+  }
+}
@@ -5,6 +5,24 @@ export interface Task<R = unknown> {
   reject: (reason?: unknown) => void
   timer: ReturnType<typeof setTimeout>
   timestamp: number
+  method: string
+  timeout: number
+  onTimeout?: (id: string) => void
+  /** Peer the request was addressed to, if any. */
+  to?: string
+  /** Set for tasks that gather responses from many peers until they time out. */
+  gather?: GatherState
+}
+
+export interface GatherOptions {
+  /** Fewer responses than this at timeout reject the task. Defaults to 0. */
+  minResponses?: number
+  /** Resolve as soon as this many responses arrived. */
+  maxResponses?: number
+}
+
+interface GatherState extends GatherOptions {
+  responses: unknown[]
 }
 
 export interface RpcSchedulerOptions {
@@ -23,26 +41,101 @@ export class RpcScheduler {
     id: string,
     method: string,
     timeout: number = this.defaultTimeout,
-    onTimeout?: (id: string) => void
+    onTimeout?: (id: string) => void,
+    to?: string
   ): Promise<R> {
     return new Promise<R>((resolve, reject) => {
-      const timer = setTimeout(() => {
-        this.pendingTasks.delete(id)
-        if (onTimeout) {
-          onTimeout(id)
-        }
-        reject(new NexusError(`Message timeout: ${method} (${id})`, NexusErrorCode.Timeout))
-      }, timeout)
-
-      this.pendingTasks.set(id, {
+      const task: Task = {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timer: undefined as unknown as ReturnType<typeof setTimeout>,
+        timestamp: Date.now(),
+        method,
+        timeout,
+        onTimeout,
+        to,
+      }
+      task.timer = this.scheduleTimeout(id, task)
+      this.pendingTasks.set(id, task)
+    })
+  }
+
+  /**
+   * Creates a task that collects every response until `timeout` elapses or
+   * `maxResponses` arrive, and resolves with all of them.
+   */
+  createGatherTask<R = unknown>(
+    id: string,
+    method: string,
+    timeout: number = this.defaultTimeout,
+    options: GatherOptions = {},
+    onTimeout?: (id: string) => void
+  ): Promise<R[]> {
+    return new Promise<R[]>((resolve, reject) => {
+      const task: Task = {
         resolve: resolve as (value: unknown) => void,
         reject,
-        timer,
+        timer: undefined as unknown as ReturnType<typeof setTimeout>,
         timestamp: Date.now(),
-      })
+        method,
+        timeout,
+        onTimeout,
+        gather: { ...options, responses: [] },
+      }
+      task.timer = this.scheduleTimeout(id, task)
+      this.pendingTasks.set(id, task)
     })
   }
 
+  isGatherTask(id: string): boolean {
+    return !!this.pendingTasks.get(id)?.gather
+  }
+
+  /**
+   * Adds a response to a gather task. Returns false when the task is unknown or already complete.
+   */
+  gatherResponse(id: string, response: unknown): boolean {
+    const task = this.pendingTasks.get(id)
+    if (!task?.gather) return false
+    task.gather.responses.push(response)
+    if (task.gather.maxResponses !== undefined && task.gather.responses.length >= task.gather.maxResponses) {
+      this.resolveTask(id, task.gather.responses)
+    }
+    return true
+  }
+
+  /**
+   * Restarts the timeout of a pending task, e.g. when the peer shows it is still alive.
+   */
+  touchTask(id: string): boolean {
+    const task = this.pendingTasks.get(id)
+    if (!task) return false
+    clearTimeout(task.timer)
+    task.timer = this.scheduleTimeout(id, task)
+    return true
+  }
+
+  private scheduleTimeout(id: string, task: Task): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      this.pendingTasks.delete(id)
+      const gather = task.gather
+      if (gather && gather.responses.length >= (gather.minResponses ?? 0)) {
+        task.resolve(gather.responses)
+        return
+      }
+      if (task.onTimeout) {
+        task.onTimeout(id)
+      }
+      task.reject(
+        new NexusError(
+          `Message timeout: ${task.method} (${id})`,
+          NexusErrorCode.Timeout,
+          gather ? { responses: gather.responses } : undefined
+        )
+      )
+    }, task.timeout)
+  }
+
   hasTask(id: string): boolean {
     return this.pendingTasks.has(id)
   }
@@ -71,6 +164,18 @@ export class RpcScheduler {
     return null
   }
 
+  /**
+   * Rejects every pending task addressed to `to`, e.g. when that peer has left.
+   */
+  rejectTasksTo(to: string, error: unknown): string[] {
+    const ids: string[] = []
+    for (const [id, task] of this.pendingTasks.entries()) {
+      if (task.to === to) ids.push(id)
+    }
+    ids.forEach((id) => this.rejectTask(id, error))
+    return ids
+  }
+
   get size(): number {
     return this.pendingTasks.size
   }
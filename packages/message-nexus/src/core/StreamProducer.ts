@@ -0,0 +1,65 @@
+/**
+ * Handler side of a stream: pulls values from an iterable while the consumer has granted
+ * credits, so a fast producer cannot flood a slow consumer. When no credit arrives within
+ * `creditTimeout`, the consumer is assumed gone and `onStall` is called, which is expected to
+ * abort `signal`.
+ */
+export class StreamProducer {
+  private credits: number
+  private wake: (() => void) | null = null
+  private signal: AbortSignal
+  private creditTimeout: number
+  private onStall: () => void
+
+  constructor(
+    highWaterMark: number,
+    signal: AbortSignal,
+    creditTimeout: number,
+    onStall: () => void,
+  ) {
+    this.credits = highWaterMark
+    this.signal = signal
+    this.creditTimeout = creditTimeout
+    this.onStall = onStall
+    this.signal.addEventListener('abort', () => this.resume(), { once: true })
+  }
+
+  grant(count: number): void {
+    this.credits += count
+    this.resume()
+  }
+
+  async pump<T>(source: AsyncIterable<T> | Iterable<T>, emit: (value: T) => void): Promise<void> {
+    const iterator =
+      Symbol.asyncIterator in source
+        ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+        : (source as Iterable<T>)[Symbol.iterator]()
+
+    try {
+      while (!this.signal.aborted) {
+        if (this.credits <= 0) {
+          const timer = setTimeout(() => this.onStall(), this.creditTimeout)
+          await new Promise<void>((resolve) => {
+            this.wake = resolve
+          })
+          clearTimeout(timer)
+          continue
+        }
+        const { value, done } = await iterator.next()
+        if (done || this.signal.aborted) break
+        this.credits--
+        emit(value)
+      }
+    } finally {
+      if (this.signal.aborted) {
+        await iterator.return?.()
+      }
+    }
+  }
+
+  private resume() {
+    const wake = this.wake
+    this.wake = null
+    wake?.()
+  }
+}
@@ -0,0 +1,108 @@
+import { matchTopic } from '../utils/topic'
+
+export interface TopicContext {
+  topic: string
+  from: string
+  /** True when the message is a retained value replayed to a new subscriber. */
+  retained: boolean
+}
+
+export type TopicHandler<T = unknown> = (data: T, context: TopicContext) => void
+
+/**
+ * Bookkeeping for topic pub/sub: local subscriptions, the patterns each peer subscribed to,
+ * and retained last values of the topics published here.
+ */
+export class TopicBroker {
+  private subscriptions: Map<string, Set<TopicHandler<any>>> = new Map()
+  private interests: Map<string, Set<string>> = new Map()
+  private retainedValues: Map<string, unknown> = new Map()
+
+  /**
+   * Returns true when `pattern` had no local subscribers before.
+   */
+  subscribe(pattern: string, handler: TopicHandler<any>): boolean {
+    const handlers = this.subscriptions.get(pattern)
+    if (handlers) {
+      handlers.add(handler)
+      return false
+    }
+    this.subscriptions.set(pattern, new Set([handler]))
+    return true
+  }
+
+  /**
+   * Returns true when the last local subscriber of `pattern` is gone.
+   */
+  unsubscribe(pattern: string, handler: TopicHandler<any>): boolean {
+    const handlers = this.subscriptions.get(pattern)
+    if (!handlers?.delete(handler)) return false
+    if (handlers.size > 0) return false
+    this.subscriptions.delete(pattern)
+    return true
+  }
+
+  get patterns(): string[] {
+    return Array.from(this.subscriptions.keys())
+  }
+
+  /**
+   * Local handlers whose pattern matches `topic`.
+   */
+  getHandlers(topic: string): TopicHandler<any>[] {
+    const handlers: TopicHandler<any>[] = []
+    this.subscriptions.forEach((set, pattern) => {
+      if (matchTopic(pattern, topic)) handlers.push(...set)
+    })
+    return handlers
+  }
+
+  addInterest(peer: string, patterns: string[]): void {
+    if (!this.interests.has(peer)) {
+      this.interests.set(peer, new Set())
+    }
+    patterns.forEach((pattern) => this.interests.get(peer)!.add(pattern))
+  }
+
+  removeInterest(peer: string, patterns: string[]): void {
+    const interest = this.interests.get(peer)
+    if (!interest) return
+    patterns.forEach((pattern) => interest.delete(pattern))
+    if (interest.size === 0) this.interests.delete(peer)
+  }
+
+  removePeer(peer: string): void {
+    this.interests.delete(peer)
+  }
+
+  /**
+   * Peers that subscribed to a pattern matching `topic`.
+   */
+  getInterestedPeers(topic: string): string[] {
+    const peers: string[] = []
+    this.interests.forEach((patterns, peer) => {
+      if (Array.from(patterns).some((pattern) => matchTopic(pattern, topic))) peers.push(peer)
+    })
+    return peers
+  }
+
+  /**
+   * Stores the last value of `topic`. `undefined` clears it.
+   */
+  retain(topic: string, data: unknown): void {
+    if (data === undefined) this.retainedValues.delete(topic)
+    else this.retainedValues.set(topic, data)
+  }
+
+  getRetained(patterns: string[]): [topic: string, data: unknown][] {
+    return Array.from(this.retainedValues.entries()).filter(([topic]) =>
+      patterns.some((pattern) => matchTopic(pattern, topic)),
+    )
+  }
+
+  clear(): void {
+    this.subscriptions.clear()
+    this.interests.clear()
+    this.retainedValues.clear()
+  }
+}
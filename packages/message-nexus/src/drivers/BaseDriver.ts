@@ -26,7 +26,13 @@ export interface JsonRpcResponse {
   id: JsonRpcId
 }
 
-export interface NexusEnvelope<T = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification> {
+export type JsonRpcBatchRequest = Array<JsonRpcRequest | JsonRpcNotification>
+
+export type JsonRpcBatchResponse = JsonRpcResponse[]
+
+export type JsonRpcPayload = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
+
+export interface NexusEnvelope<T = JsonRpcPayload | JsonRpcBatchRequest | JsonRpcBatchResponse> {
   from: string
   to?: string
   metadata?: Record<string, unknown>
@@ -39,13 +45,25 @@ export default class BaseDriver {
   onMessage: ((data: Message) => void) | null
   onConnect: (() => void) | null
   onDisconnect: (() => void) | null
+  /**
+   * Whether `send()` honors a transfer list. Drivers that cannot transfer ignore it
+   * and the payload is copied instead.
+   */
+  readonly supportsTransfer: boolean = false
+
+  /**
+   * Origin of the peer, for drivers that know it. Matched by access rules with `origin`.
+   */
+  get origin(): string | undefined {
+    return undefined
+  }
 
   constructor() {
     this.onMessage = null
     this.onConnect = null
     this.onDisconnect = null
   }
-  send(data: Message) {
+  send(data: Message, transfer?: Transferable[]) {
     throw new Error('Not implemented')
   }
   destroy() {
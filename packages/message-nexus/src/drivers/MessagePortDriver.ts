@@ -0,0 +1,105 @@
+import BaseDriver, { type Message } from './BaseDriver'
+import { MESSAGE_NEXUS_PROTOCOL } from '../utils/constants'
+import { NexusError, NexusErrorCode } from '../errors'
+
+export interface BridgeMessage extends Message {
+  __messageBridge: typeof MESSAGE_NEXUS_PROTOCOL
+}
+
+function isBridgeMessage(data: unknown): data is BridgeMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    '__messageBridge' in data &&
+    (data as Record<string, unknown>).__messageBridge === MESSAGE_NEXUS_PROTOCOL
+  )
+}
+
+/**
+ * Minimal endpoint shape shared by `MessagePort`, `Worker` and `DedicatedWorkerGlobalScope`.
+ */
+export interface MessagePortLike {
+  postMessage(message: unknown, transfer?: Transferable[]): void
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+  start?(): void
+  close?(): void
+}
+
+export interface MessagePortDriverOptions {
+  /**
+   * Whether `destroy()` should call `close()` on the endpoint (if it has one). Defaults to
+   * true, except for the global scope: inside a worker, `self.close()` terminates the worker.
+   */
+  closeOnDestroy?: boolean
+}
+
+export default class MessagePortDriver extends BaseDriver {
+  port: MessagePortLike
+  readonly supportsTransfer = true
+  private closeOnDestroy: boolean
+  private messageHandler: ((event: MessageEvent) => void) | null = null
+
+  constructor(port: MessagePortLike, options: MessagePortDriverOptions = {}) {
+    super()
+
+    if (
+      !port ||
+      typeof port.postMessage !== 'function' ||
+      typeof port.addEventListener !== 'function'
+    ) {
+      throw new Error(
+        'MessagePortDriver requires an endpoint with postMessage and addEventListener',
+      )
+    }
+
+    this.port = port
+    this.closeOnDestroy = options.closeOnDestroy ?? port !== globalThis
+
+    this.messageHandler = (event: MessageEvent) => {
+      if (!isBridgeMessage(event.data)) {
+        return
+      }
+      const { __messageBridge, ...message } = event.data
+      this.onMessage?.(message as Message)
+    }
+
+    this.port.addEventListener('message', this.messageHandler)
+    // MessagePort queues messages until started when using addEventListener
+    this.port.start?.()
+  }
+
+  send(data: Message, transfer?: Transferable[]) {
+    const bridgeMessage: BridgeMessage = {
+      ...data,
+      __messageBridge: MESSAGE_NEXUS_PROTOCOL,
+    }
+    try {
+      if (transfer?.length) {
+        this.port.postMessage(bridgeMessage, transfer)
+      } else {
+        this.port.postMessage(bridgeMessage)
+      }
+    } catch (error) {
+      if (
+        typeof DOMException !== 'undefined' &&
+        error instanceof DOMException &&
+        error.name === 'DataCloneError'
+      ) {
+        throw new NexusError('Message payload cannot be cloned', NexusErrorCode.InvalidParams)
+      }
+      throw error
+    }
+  }
+
+  destroy() {
+    if (this.messageHandler) {
+      this.port.removeEventListener('message', this.messageHandler)
+      this.messageHandler = null
+      if (this.closeOnDestroy) {
+        this.port.close?.()
+      }
+    }
+    this.onMessage = null
+  }
+}
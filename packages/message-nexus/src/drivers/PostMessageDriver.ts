@@ -18,6 +18,7 @@ function isBridgeMessage(data: unknown): data is BridgeMessage {
 export default class PostMessageDriver extends BaseDriver {
   targetWindow: Window
   targetOrigin: string
+  readonly supportsTransfer = true
   private messageHandler: ((event: MessageEvent) => void) | null = null
   constructor(targetWindow: Window, targetOrigin: string) {
     super()
@@ -44,13 +45,21 @@ export default class PostMessageDriver extends BaseDriver {
     window.addEventListener('message', this.messageHandler)
   }
 
-  send(data: Message) {
+  get origin(): string {
+    return this.targetOrigin
+  }
+
+  send(data: Message, transfer?: Transferable[]) {
     const bridgeMessage: BridgeMessage = {
       ...data,
       __messageBridge: MESSAGE_NEXUS_PROTOCOL,
     }
     try {
-      this.targetWindow.postMessage(bridgeMessage, this.targetOrigin)
+      if (transfer?.length) {
+        this.targetWindow.postMessage(bridgeMessage, this.targetOrigin, transfer)
+      } else {
+        this.targetWindow.postMessage(bridgeMessage, this.targetOrigin)
+      }
     } catch (error) {
       if (typeof DOMException !== 'undefined' && error instanceof DOMException && error.name === 'DataCloneError') {
         throw new NexusError('Message payload cannot be cloned', NexusErrorCode.InvalidParams)
@@ -0,0 +1,202 @@
+import BaseDriver, { type Message } from './BaseDriver'
+import BroadcastDriver from './BroadcastDriver'
+import type MessageNexus from '../index'
+import { MessageQueue } from '../core/MessageQueue'
+import { LeaderElector, type LeaderElectorOptions } from '../core/LeaderElector'
+import type { InvokeContext } from '../core/EventRouter'
+import {
+  RELAY_INBOUND_METHOD,
+  RELAY_OUTBOUND_METHOD,
+  RELAY_QUERY_METHOD,
+  RELAY_STATUS_METHOD,
+} from '../utils/constants'
+
+export interface SharedConnectionDriverOptions {
+  /** BroadcastChannel name shared by the tabs. */
+  channel: string
+  /** Creates the real connection, e.g. `() => new WebSocketDriver({ url })`. Only the leader calls it. */
+  createDriver: () => BaseDriver
+  election?: LeaderElectorOptions
+  /** Messages of other tabs the leader holds while its connection is down. Defaults to 100. */
+  maxQueueSize?: number
+}
+
+let Nexus: typeof MessageNexus | null = null
+
+/**
+ * Provides the `MessageNexus` class for the control channel between the tabs. Called by the
+ * entry module, so this driver does not import the nexus at runtime and form a cycle with it.
+ */
+export function registerNexus(nexus: typeof MessageNexus): void {
+  Nexus = nexus
+}
+
+interface ConnectionStatus {
+  connected: boolean
+  term: number
+}
+
+/**
+ * Shares one connection between tabs: the elected leader tab holds the real driver and
+ * relays messages for the other tabs over a BroadcastChannel. Incoming messages are relayed
+ * to every tab, where `to` routing delivers them to the right instance.
+ */
+export default class SharedConnectionDriver extends BaseDriver {
+  private control: MessageNexus
+  private elector: LeaderElector
+  private createDriver: () => BaseDriver
+  private connection: BaseDriver | null = null
+  private relayed: MessageQueue
+  private connected = false
+  private statusTerm = 0
+  private disposers: (() => void)[]
+
+  constructor(options: SharedConnectionDriverOptions) {
+    super()
+
+    if (!options.channel) {
+      throw new Error('SharedConnectionDriver requires a channel name')
+    }
+
+    this.createDriver = options.createDriver
+    this.relayed = new MessageQueue({ maxQueueSize: options.maxQueueSize })
+    if (!Nexus) {
+      throw new Error('SharedConnectionDriver has to be imported from the package entry')
+    }
+    this.control = new Nexus(new BroadcastDriver({ channel: options.channel }))
+    this.elector = new LeaderElector(this.control, {
+      name: 'shared-connection',
+      ...options.election,
+    })
+    this.elector.onLeadershipChange((isLeader) => {
+      if (isLeader) this.openConnection()
+      else this.closeConnection()
+    })
+
+    this.disposers = [
+      this.control.onNotification(RELAY_OUTBOUND_METHOD, (message: Message, context) => {
+        if (this.isOwnMessage(context) || !this.connection) return
+        // The sending tab saw an older status; hold the message until the connection is back
+        if (!this.connected) {
+          this.relayed.enqueue(message)
+          return
+        }
+        try {
+          this.connection.send(message)
+        } catch {
+          this.relayed.enqueue(message)
+        }
+      }),
+      this.control.onNotification(RELAY_INBOUND_METHOD, (message: Message, context) => {
+        if (this.isOwnMessage(context) || this.connection) return
+        this.onMessage?.(message)
+      }),
+      this.control.onNotification(RELAY_STATUS_METHOD, (status: ConnectionStatus, context) => {
+        if (this.isOwnMessage(context) || this.connection) return
+        // Ignore a stale leader stepping down after a newer one announced itself
+        if (status.term < this.statusTerm) return
+        this.statusTerm = status.term
+        this.setConnected(status.connected)
+      }),
+      this.control.onNotification(RELAY_QUERY_METHOD, (_params, context) => {
+        if (!this.isOwnMessage(context) && this.elector.isLeader) this.broadcastStatus()
+      }),
+    ]
+
+    // Ask a leader that is already connected for its status
+    this.relay(RELAY_QUERY_METHOD, undefined)
+  }
+
+  /**
+   * Whether this tab holds the real connection.
+   */
+  get isLeader(): boolean {
+    return this.elector.isLeader
+  }
+
+  send(data: Message) {
+    if (!this.connected) {
+      throw new Error('Shared connection is not open')
+    }
+    if (this.connection) {
+      this.connection.send(data)
+    } else {
+      this.relay(RELAY_OUTBOUND_METHOD, data)
+    }
+  }
+
+  destroy() {
+    this.closeConnection()
+    this.elector.close()
+    this.disposers.forEach((dispose) => dispose())
+    this.control.destroy()
+    this.onMessage = null
+    this.onConnect = null
+    this.onDisconnect = null
+  }
+
+  private openConnection() {
+    this.setConnected(false)
+    const connection = this.createDriver()
+    connection.onMessage = (message) => {
+      this.onMessage?.(message)
+      this.relay(RELAY_INBOUND_METHOD, message)
+    }
+    connection.onConnect = () => {
+      this.flushRelayed()
+      this.setConnected(true)
+      this.broadcastStatus()
+    }
+    connection.onDisconnect = () => {
+      this.setConnected(false)
+      this.broadcastStatus()
+    }
+    this.connection = connection
+  }
+
+  private closeConnection() {
+    const connection = this.connection
+    if (!connection) return
+    this.connection = null
+    connection.onDisconnect = null
+    connection.destroy()
+    // Held messages time out in their tabs like any other message lost in the handover
+    this.relayed.clear()
+    this.setConnected(false)
+    this.broadcastStatus(false)
+  }
+
+  private flushRelayed() {
+    while (this.connection && !this.relayed.isEmpty) {
+      const message = this.relayed.dequeue()!
+      try {
+        this.connection.send(message)
+      } catch {
+        this.relayed.unshift(message)
+        return
+      }
+    }
+  }
+
+  private broadcastStatus(connected = this.connected) {
+    const status: ConnectionStatus = { connected, term: this.elector.term }
+    this.relay(RELAY_STATUS_METHOD, status)
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return
+    this.connected = connected
+    if (connected) this.onConnect?.()
+    else this.onDisconnect?.()
+  }
+
+  private isOwnMessage(context: InvokeContext) {
+    return context.from === this.control.instanceId
+  }
+
+  private relay(method: string, params: unknown) {
+    this.control.notify({ method, params }).catch(() => {
+      // Delivery failures surface through the control nexus logger
+    })
+  }
+}
@@ -1,6 +1,7 @@
 import BaseDriver, { type Message } from './BaseDriver'
 import { Logger, createConsoleHandler, LogLevel } from '../utils/logger'
 import { MESSAGE_NEXUS_PROTOCOL } from '../utils/constants'
+import { jsonCodec, type Codec } from '../utils/codec'
 
 interface ReconnectOptions {
   maxRetries?: number
@@ -13,6 +14,16 @@ export interface WebSocketDriverOptions {
   reconnect?: boolean | ReconnectOptions
   logger?: Logger
   onStatusChange?: (status: 'connecting' | 'connected' | 'disconnected' | 'error') => void
+  /**
+   * Frame format, defaults to `jsonCodec`. Both ends must use the same codec: either configure
+   * one on each side, or pass several to offer them as subprotocols (`message-nexus-v1.<name>`)
+   * and use the one the server selects, falling back to the first.
+   */
+  codec?: Codec | Codec[]
+}
+
+function getSubprotocol(codec: Codec): string {
+  return `${MESSAGE_NEXUS_PROTOCOL}.${codec.name}`
 }
 
 export default class WebSocketDriver extends BaseDriver {
@@ -26,10 +37,19 @@ export default class WebSocketDriver extends BaseDriver {
   private isManuallyClosed: boolean = false
   private logger: Logger
   private onStatusChange?: (status: 'connecting' | 'connected' | 'disconnected' | 'error') => void
+  private codecs: Codec[]
+  private codec: Codec
+  private negotiateCodec: boolean
 
   constructor(options: WebSocketDriverOptions) {
     super()
     this.url = options.url
+    this.codecs = Array.isArray(options.codec) ? options.codec : [options.codec ?? jsonCodec]
+    if (this.codecs.length === 0) {
+      throw new Error('WebSocketDriver requires at least one codec')
+    }
+    this.codec = this.codecs[0]
+    this.negotiateCodec = Array.isArray(options.codec)
     this.reconnectEnabled = options.reconnect !== false
     this.maxRetries =
       (typeof options.reconnect === 'object' ? options.reconnect.maxRetries : undefined) ?? Infinity
@@ -45,10 +65,18 @@ export default class WebSocketDriver extends BaseDriver {
 
   private connect() {
     this.onStatusChange?.('connecting')
-    this.ws = new WebSocket(this.url)
+    this.ws = this.negotiateCodec
+      ? new WebSocket(this.url, this.codecs.map(getSubprotocol))
+      : new WebSocket(this.url)
+    // Binary frames arrive as ArrayBuffer instead of Blob, so codecs can decode them synchronously
+    this.ws.binaryType = 'arraybuffer'
 
     this.ws.addEventListener('open', () => {
-      this.logger.info('WebSocket connected', { url: this.url })
+      if (this.negotiateCodec) {
+        const protocol = this.ws?.protocol
+        this.codec = this.codecs.find((codec) => getSubprotocol(codec) === protocol) ?? this.codecs[0]
+      }
+      this.logger.info('WebSocket connected', { url: this.url, codec: this.codec.name })
       this.retryCount = 0
       this.onStatusChange?.('connected')
       this.onConnect?.()
@@ -56,7 +84,7 @@ export default class WebSocketDriver extends BaseDriver {
 
     this.ws.addEventListener('message', (event) => {
       try {
-        const rawData = JSON.parse(event.data)
+        const rawData = this.codec.decode(event.data) as any
         // Verify protocol and extract message
         if (
           typeof rawData === 'object' &&
@@ -133,7 +161,7 @@ export default class WebSocketDriver extends BaseDriver {
       ...data,
       __messageBridge: MESSAGE_NEXUS_PROTOCOL,
     }
-    this.ws.send(JSON.stringify(bridgeMessage))
+    this.ws.send(this.codec.encode(bridgeMessage))
   }
 
   close() {
@@ -14,6 +14,12 @@ export enum NexusErrorCode {
   SendFailed = -32002,
   InvalidResponse = -32003,
   InstanceDestroyed = -32004,
+  PeerDisconnected = -32005,
+  Unauthorized = -32006,
+  Forbidden = -32007,
+
+  // LSP-compatible codes
+  RequestCancelled = -32800,
 }
 
 /**
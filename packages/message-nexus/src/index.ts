@@ -1,14 +1,21 @@
 import BaseDriver, {
   type Message,
   type NexusEnvelope,
+  type JsonRpcId,
   type JsonRpcRequest,
   type JsonRpcResponse,
   type JsonRpcNotification,
+  type JsonRpcBatchRequest,
 } from './drivers/BaseDriver'
 import BroadcastDriver from './drivers/BroadcastDriver'
 import MittDriver from './drivers/MittDriver'
+import MessagePortDriver, { type MessagePortLike } from './drivers/MessagePortDriver'
 import PostMessageDriver from './drivers/PostMessageDriver'
-import WebSocketDriver from './drivers/WebSocketDriver'
+import SharedConnectionDriver, {
+  registerNexus,
+  type SharedConnectionDriverOptions,
+} from './drivers/SharedConnectionDriver'
+import WebSocketDriver, { type WebSocketDriverOptions } from './drivers/WebSocketDriver'
 import {
   Logger,
   LoggerInterface,
@@ -19,13 +26,110 @@ import {
   isSimpleLogger,
 } from './utils/logger'
 import { createEmitter } from './utils/emitter'
+import {
+  jsonCodec,
+  extendedJsonCodec,
+  bytesToBase64,
+  base64ToBuffer,
+  type Codec,
+} from './utils/codec'
+import {
+  gzipCompressor,
+  deflateCompressor,
+  createStreamCompressor,
+  type Compressor,
+} from './utils/compression'
+import { msgpackCodec } from './utils/msgpack'
 import { NexusError, NexusErrorCode } from './errors'
 import { safeExecute } from './utils/safe'
+import { transfer, takeTransferables } from './utils/transfer'
+import { getPublicMethodNames } from './utils/service'
+import {
+  CANCEL_REQUEST_METHOD,
+  STREAM_CHUNK_METHOD,
+  STREAM_PULL_METHOD,
+  STREAM_METADATA_KEY,
+  PROGRESS_METHOD,
+  PROGRESS_METADATA_KEY,
+  CALLBACK_METHOD,
+  DISCOVER_METHOD,
+  CHUNK_METHOD,
+  COMPRESSED_METHOD,
+  SECURE_METHOD,
+  WRAPPER_METHODS,
+  AUTH_METHOD,
+  AUTH_REFRESH_METHOD,
+  SESSION_METADATA_KEY,
+  CALLBACK_RELEASE_METHOD,
+  HELLO_METHOD,
+  HELLO_ACK_METHOD,
+  PROTOCOL_VERSION,
+  BUILTIN_CAPABILITIES,
+  PRESENCE_HEARTBEAT_METHOD,
+  PRESENCE_LEAVE_METHOD,
+  PUBSUB_SUBSCRIBE_METHOD,
+  PUBSUB_UNSUBSCRIBE_METHOD,
+  PUBSUB_SYNC_METHOD,
+  PUBSUB_PUBLISH_METHOD,
+} from './utils/constants'
+import { assertTopic, assertTopicPattern } from './utils/topic'
+import {
+  buildOpenRpcDocument,
+  type OpenRpcDocument,
+  type OpenRpcMethod,
+  type OpenRpcContentDescriptor,
+} from './utils/openrpc'
+import {
+  validateSchema,
+  type StandardSchema,
+  type StandardSchemaResult,
+  type StandardSchemaIssue,
+  type SchemaIssue,
+  type StandardJsonSchema,
+} from './utils/schema'
 
 import { MessageQueue } from './core/MessageQueue'
-import { RpcScheduler } from './core/RpcScheduler'
+import { RpcScheduler, type GatherOptions } from './core/RpcScheduler'
+import { RemoteStream } from './core/RemoteStream'
+import { StreamProducer } from './core/StreamProducer'
+import { createRemoteProxy } from './core/RemoteProxy'
+import { CallbackRegistry, proxyFunction } from './core/CallbackRegistry'
+import { PeerHandshake, type PeerInfo } from './core/PeerHandshake'
+import { PresenceTracker, type PresencePeer } from './core/PresenceTracker'
+import { TopicBroker, type TopicContext, type TopicHandler } from './core/TopicBroker'
+import { ChunkSender } from './core/ChunkSender'
+import { ChunkAssembler } from './core/ChunkAssembler'
+import { AuthSessions, type AuthResult } from './core/AuthSessions'
+import {
+  AccessControl,
+  type AccessControlOptions,
+  type AccessRule,
+} from './core/AccessControl'
+import {
+  EnvelopeSecurity,
+  type SecurityKey,
+  type SecurityOptions,
+} from './core/EnvelopeSecurity'
+import {
+  NexusRouter,
+  type NexusRouterOptions,
+  type RouterPortOptions,
+  type MethodPolicy,
+} from './core/NexusRouter'
+import type { MethodPattern } from './utils/pattern'
+import {
+  LeaderElector,
+  type LeaderElectorOptions,
+  type LeadershipChangeCallback,
+} from './core/LeaderElector'
 import { MiddlewarePipeline, type MiddlewareContext } from './core/MiddlewarePipeline'
-import { EventRouter, type InvokeContext, type InvokeHandler, type NotificationHandler } from './core/EventRouter'
+import {
+  EventRouter,
+  type InvokeContext,
+  type InvokeHandler,
+  type NotificationHandler,
+  type StreamHandler,
+} from './core/EventRouter'
 
 export interface MessageNexusOptions {
   instanceId?: string
@@ -34,6 +138,156 @@ export interface MessageNexusOptions {
   logger?: LoggerInterface | SimpleLogger
   loggerEnabled?: boolean
   logLevel?: LogLevel
+  /**
+   * Send every function found in params and results as a callable remote reference.
+   * When disabled, only functions marked with `proxyFunction()` are proxied.
+   */
+  proxyFunctions?: boolean
+  /**
+   * Say hello to peers on creation. `true` uses the default `HandshakeOptions`.
+   */
+  handshake?: boolean | HandshakeOptions
+  /**
+   * Track live peers with heartbeats. `true` uses the default `PresenceOptions`.
+   */
+  presence?: boolean | PresenceOptions
+  /**
+   * Answer `rpc.discover` with an OpenRPC document of the registered handlers. Enabled by
+   * default; pass `false` to hide the method list from peers.
+   */
+  discovery?: boolean | DiscoveryOptions
+  /**
+   * Split messages larger than `chunkSize` into `$/chunk` notifications. `true` uses the
+   * default `ChunkingOptions`. Receiving chunked messages always works, within the default
+   * limits unless configured here.
+   */
+  chunking?: boolean | ChunkingOptions
+  /**
+   * Compress messages above a size threshold. `true` uses the default `CompressionOptions`.
+   * Receiving compressed messages always works for gzip, deflate and the configured compressor.
+   */
+  compression?: boolean | CompressionOptions
+  /**
+   * HMAC-sign every message and optionally encrypt it. Unsigned, forged and replayed
+   * messages are dropped before they reach interceptors and handlers.
+   */
+  security?: SecurityOptions
+  /**
+   * Credentials this instance sends to peers, and how it verifies the credentials of theirs.
+   */
+  auth?: AuthOptions
+  /**
+   * Allow and deny lists of methods per peer, origin or principal, checked before handlers
+   * run. Denied requests are rejected with `Forbidden`.
+   */
+  accessControl?: AccessControlOptions
+}
+
+export interface CompressionOptions {
+  /** Messages smaller than this many bytes are sent as they are. Defaults to 1024. */
+  threshold?: number
+  /** Defaults to `gzipCompressor`. The receiver needs a compressor of the same name. */
+  compressor?: Compressor
+  /** Received messages that inflate beyond this many bytes are dropped. Defaults to 64 MiB. */
+  maxDecompressedSize?: number
+}
+
+/**
+ * Options of large message chunking. Sizes are characters of the extended JSON encoding of
+ * an envelope, which is about bytes for ASCII content.
+ */
+export interface ChunkingOptions {
+  /** Messages above this size are split into chunks of this size. Defaults to 256 KiB. */
+  chunkSize?: number
+  /** Reassembly is abandoned when no chunk of a message arrived for this long. Defaults to 30000ms. */
+  timeout?: number
+  /** Largest message accepted for reassembly. Defaults to 64 MiB. */
+  maxMessageSize?: number
+  /** Cap for all partially received messages together. Defaults to 128 MiB. */
+  maxPendingSize?: number
+}
+
+/**
+ * The `info` section of the OpenRPC document returned by `rpc.discover`.
+ */
+export interface DiscoveryOptions {
+  /** Defaults to the instance ID. */
+  title?: string
+  /** Version of the exposed API. Defaults to `0.0.0`. */
+  version?: string
+  description?: string
+}
+
+/**
+ * Options of the hello/ack handshake.
+ */
+export interface HandshakeOptions {
+  /** Hold outbound messages in the queue until the first peer answers. Defaults to false. */
+  queueUntilReady?: boolean
+  /** Extra capabilities announced to peers, next to the built-in ones. */
+  capabilities?: string[]
+  /** Delay between hello retries while no peer answered. Defaults to 500ms. */
+  retryInterval?: number
+}
+
+/**
+ * Options of the authentication handshake.
+ */
+export interface AuthOptions {
+  /**
+   * Returns the credentials sent by `authenticate()`. Called for every (re-)authentication,
+   * so it can hand out a fresh token each time.
+   */
+  getToken?: () => unknown | Promise<unknown>
+  /**
+   * Verifies the credentials of a peer and returns its principal, or throws to reject them.
+   * When set, requests and notifications from peers without a valid session are rejected.
+   */
+  authenticate?: (credentials: unknown, from: string) => AuthResult | Promise<AuthResult>
+  /** Ask a peer for fresh credentials this long before its session expires. Defaults to 5000ms. */
+  refreshMargin?: number
+}
+
+/**
+ * Options of the presence subsystem.
+ */
+export interface PresenceOptions {
+  /** Delay between heartbeats. Defaults to 5000ms. */
+  interval?: number
+  /** Silence after which a peer is considered gone. Defaults to three intervals. */
+  timeout?: number
+  /** Announced to peers with every heartbeat, e.g. a tab title or user name. */
+  metadata?: Record<string, unknown>
+}
+
+export type PeerCallback = (peer: PresencePeer) => void
+
+/**
+ * Audit record of a request or notification that access control refused.
+ */
+export interface AccessDeniedEvent {
+  method: string
+  from: string
+  origin?: string
+  principal?: unknown
+  /** Request id; unset for notifications. */
+  messageId?: string
+  /** Index of the rule that denied the method. Unset when the default denied it. */
+  rule?: number
+  timestamp: number
+}
+
+export type AccessDeniedCallback = (event: AccessDeniedEvent) => void
+
+/**
+ * Options for publishing to a topic.
+ */
+export interface PublishOptions {
+  /**
+   * Keep the value and replay it to subscribers that join later. Publishing `undefined`
+   * with `retain` clears the retained value.
+   */
+  retain?: boolean
 }
 
 /**
@@ -42,6 +296,8 @@ export interface MessageNexusOptions {
 export interface MethodSchema {
   params?: any
   result?: any
+  /** Type of the values yielded by a stream handler. */
+  chunk?: any
 }
 
 /**
@@ -59,6 +315,11 @@ type GetParams<T> = T extends { params: infer P } ? P : unknown
  */
 type GetResult<T> = T extends { result: infer R } ? R : unknown
 
+/**
+ * Helper to extract stream chunks from a schema or return unknown if not present.
+ */
+type GetChunk<T> = T extends { chunk: infer C } ? C : unknown
+
 /**
  * Options for invoking a method.
  */
@@ -70,8 +331,113 @@ export interface InvokeOptions<K extends string = string, P = unknown> {
   timeout?: number
   retryCount?: number
   retryDelay?: number
+  /**
+   * Objects to transfer instead of clone. Only honored by drivers with `supportsTransfer`.
+   * Transferred objects are detached after the first send, so avoid combining with `retryCount`.
+   */
+  transfer?: Transferable[]
+  /**
+   * Aborting rejects the call and sends a `$/cancelRequest` notification to the peer.
+   */
+  signal?: AbortSignal
+  /**
+   * Receives `context.reportProgress()` calls of the handler. Each report restarts the timeout.
+   */
+  onProgress?: ProgressCallback
+  /**
+   * Validates `params` before sending. Invalid params reject with `InvalidParams` and are not sent.
+   */
+  paramsSchema?: StandardSchema<unknown, P>
+  /**
+   * Validates the peer's result. A mismatch rejects with `InvalidResponse`.
+   */
+  resultSchema?: StandardSchema
+}
+
+/**
+ * Options of `handle()`.
+ */
+export interface HandlerOptions<P = unknown, R = unknown> {
+  /** Shown in the `rpc.discover` document. */
+  description?: string
+  /**
+   * Validates incoming params before the handler runs; invalid requests are answered with
+   * `InvalidParams` and the issues in `error.data.issues`. The handler receives the schema output.
+   */
+  paramsSchema?: StandardSchema<unknown, P>
+  /**
+   * Validates the handler's result before replying; a mismatch is answered with `InternalError`.
+   */
+  resultSchema?: StandardSchema<unknown, R>
+}
+
+/**
+ * Per-call options of a remote proxy method.
+ */
+export type ProxyCallOptions = Omit<InvokeOptions, 'method' | 'params'>
+
+/**
+ * A proxy method: params become optional when the schema does not require them.
+ */
+export type ProxyMethod<S> =
+  undefined extends GetParams<S>
+    ? (params?: GetParams<S>, options?: ProxyCallOptions) => Promise<GetResult<S>>
+    : (params: GetParams<S>, options?: ProxyCallOptions) => Promise<GetResult<S>>
+
+type ProxyHead<K extends string> = K extends `${infer H}.${string}` ? H : K
+
+/**
+ * Maps dotted method names of an InvokeMap to nested objects,
+ * e.g. `{ 'user.get': ... }` becomes `{ user: { get(params, options?) } }`.
+ */
+export type RemoteProxy<M> = {
+  [H in ProxyHead<keyof M & string>]: (H extends keyof M ? ProxyMethod<M[H]> : unknown) &
+    RemoteProxy<{ [K in keyof M & string as K extends `${H}.${infer T}` ? T : never]: M[K] }>
+}
+
+/**
+ * Options for exposing a service object.
+ */
+export interface ExposeOptions<T> {
+  /** Only expose these methods. */
+  include?: Array<keyof T & string>
+  /** Never expose these methods. */
+  exclude?: Array<keyof T & string>
+  /**
+   * Also expose methods inherited from base classes. Defaults to false; methods listed in
+   * `include` are exposed wherever they are defined.
+   */
+  inherited?: boolean
+}
+
+/**
+ * Options for opening a stream.
+ */
+export interface StreamOptions {
+  to?: string
+  metadata?: Record<string, unknown>
+  /** Maximum inactivity (milliseconds) between stream frames. */
+  timeout?: number
+  /** Number of chunks the handler may send ahead of the consumer. */
+  highWaterMark?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Options of `invokeAll()`. Responses are gathered until `timeout` elapses or `maxResponses` arrive.
+ */
+export interface InvokeAllOptions extends GatherOptions {
+  metadata?: Record<string, unknown>
+  timeout?: number
 }
 
+/**
+ * One peer's answer to an `invokeAll()` call.
+ */
+export type InvokeAllResponse<R = unknown> =
+  | { from: string; result: R; error?: undefined }
+  | { from: string; result?: undefined; error: NexusError }
+
 /**
  * Options for sending a notification.
  */
@@ -80,8 +446,72 @@ export interface NotificationOptions<K extends string = string, P = unknown> {
   params?: P
   to?: string
   metadata?: Record<string, unknown>
+  transfer?: Transferable[]
+}
+
+/**
+ * A single entry of a JSON-RPC batch.
+ */
+export interface BatchCall<K extends string = string, P = unknown> {
+  method: K
+  params?: P
+  /** Send as a notification: no response is expected and the entry resolves to `undefined`. */
+  notification?: boolean
+}
+
+/**
+ * Options applied to a whole batch.
+ */
+export interface BatchOptions {
+  to?: string
+  metadata?: Record<string, unknown>
+  timeout?: number
+}
+
+function isWrappedFrame(data: unknown): boolean {
+  const method = (data as { payload?: { method?: unknown } } | null)?.payload?.method
+  return typeof method === 'string' && WRAPPER_METHODS.has(method)
+}
+
+/**
+ * Sent before a session can exist, so they never wait for authentication and are not subject
+ * to access control.
+ */
+const HANDSHAKE_METHODS = new Set([HELLO_METHOD, HELLO_ACK_METHOD, AUTH_METHOD])
+
+type ReplyFrame = { response: JsonRpcResponse; transfer?: Transferable[] }
+
+/** Result of a `$/auth` request: the session token to present and the peer that issued it. */
+type AuthReply = { session: string; expiresAt?: number; instanceId: string }
+
+/**
+ * Returns the ids of all JSON-RPC entries in a payload, batch or not.
+ */
+function getPayloadIds(payload: Message['payload']): string[] {
+  const entries = Array.isArray(payload) ? payload : [payload]
+  return entries
+    .filter((entry) => entry && typeof entry === 'object' && 'id' in entry)
+    .map((entry) => String((entry as { id: JsonRpcId }).id))
+}
+
+/**
+ * The request a message belongs to: requests and responses carry its id, reserved
+ * notifications about it (stream values, progress, cancellation) carry it in `params.id`.
+ * The chunk sender keeps messages of one flow in order, e.g. the values and end of a stream.
+ */
+function getFlow(message: Message): string | undefined {
+  const payload = message.payload
+  if (Array.isArray(payload)) return undefined
+  let id: unknown = 'id' in payload ? payload.id : undefined
+  if (id === undefined && 'method' in payload && payload.method.startsWith('$/')) {
+    id = (payload.params as { id?: unknown } | undefined)?.id
+  }
+  if (typeof id !== 'string' && typeof id !== 'number') return undefined
+  return `${message.to ?? ''}:${id}`
 }
 
+export type ProgressCallback = (value: number, message?: string) => void
+
 export type ErrorHandler = (error: Error | NexusError, context?: Record<string, unknown>) => void
 
 export type RequestInterceptor = (message: Message) => Message | Promise<Message>
@@ -95,6 +525,11 @@ export interface Metrics {
   queuedMessages: number
   totalLatency: number
   averageLatency: number
+  progressReceived: number
+  /** Encoded size of the messages sent compressed, before compression. */
+  bytesBeforeCompression: number
+  /** Size of the same messages after compression. */
+  bytesAfterCompression: number
 }
 
 export type MetricsCallback = (metrics: Metrics) => void
@@ -112,6 +547,38 @@ export default class MessageNexus<
   private requestPipeline: MiddlewarePipeline
   private responsePipeline: MiddlewarePipeline
   private router: EventRouter<InvokeMap, NotificationMap>
+  private callbacks: CallbackRegistry
+  private handshake: PeerHandshake
+  private capabilities: string[]
+  private queueUntilReady: boolean
+  /** Messages in the queue that were held for the handshake before they were prepared. */
+  private heldMessages: WeakSet<Message> = new WeakSet()
+  private sendChain: Promise<void> = Promise.resolve()
+  private receiveChain: Promise<unknown> = Promise.resolve()
+  private unwrapping = 0
+  private presence: PresenceTracker | null = null
+  private auth: AuthOptions
+  private authSessions: AuthSessions
+  private pendingAuth: Map<string, Promise<{ expiresAt?: number }>> = new Map()
+  private sessionTokens: Map<string, string> = new Map()
+  private presenceMetadata: Record<string, unknown> = {}
+  private peerJoinCallbacks: Set<PeerCallback> = new Set()
+  private peerLeaveCallbacks: Set<PeerCallback> = new Set()
+  private accessControl: AccessControl | null
+  private accessDeniedCallbacks: Set<AccessDeniedCallback> = new Set()
+  private topics: TopicBroker = new TopicBroker()
+  private topicsSynced = false
+  private discovery: DiscoveryOptions | null
+  private chunkSender: ChunkSender | null = null
+  private chunkSize = 0
+  private chunkAssembler: ChunkAssembler
+  private compressor: Compressor | null = null
+  private security: EnvelopeSecurity | null
+  private compressionThreshold = 0
+  private maxDecompressedSize: number
+  private compressors: Map<string, Compressor> = new Map(
+    [gzipCompressor, deflateCompressor].map((compressor) => [compressor.name, compressor]),
+  )
   
   private errorHandler: ErrorHandler | null = null
   private logger: LoggerInterface
@@ -123,8 +590,18 @@ export default class MessageNexus<
     queuedMessages: 0,
     totalLatency: 0,
     averageLatency: 0,
+    progressReceived: 0,
+    bytesBeforeCompression: 0,
+    bytesAfterCompression: 0,
   }
   private metricsCallbacks: Set<MetricsCallback> = new Set()
+  private transferLists: WeakMap<Message, Transferable[]> = new WeakMap()
+  /** Flows of prepared messages, whose request id compression and sealing may hide. */
+  private messageFlows: WeakMap<Message, string> = new WeakMap()
+  private activeRequests: Map<string, AbortController> = new Map()
+  private streams: Map<string, RemoteStream> = new Map()
+  private streamProducers: Map<string, StreamProducer> = new Map()
+  private progressCallbacks: Map<string, ProgressCallback> = new Map()
   private metricsThrottleTimer: ReturnType<typeof setTimeout> | null = null
   private _isDestroyed: boolean = false
 
@@ -158,11 +635,9 @@ export default class MessageNexus<
       maxQueueSize: options?.maxQueueSize ?? 100,
       logger: this.logger,
       onMessageDropped: (droppedMessage) => {
-        const payload = droppedMessage.payload as any
-        if (payload && 'id' in payload) {
-          const droppedId = String(payload.id)
+        getPayloadIds(droppedMessage.payload).forEach((droppedId) => {
           this.scheduler.rejectTask(droppedId, new NexusError('Message dropped due to queue overflow', NexusErrorCode.SendFailed))
-        }
+        })
       }
     })
 
@@ -173,6 +648,17 @@ export default class MessageNexus<
     this.requestPipeline = new MiddlewarePipeline()
     this.responsePipeline = new MiddlewarePipeline()
     this.router = new EventRouter<InvokeMap, NotificationMap>()
+    this.callbacks = new CallbackRegistry({
+      autoProxy: options?.proxyFunctions,
+      invoke: (owner, ref, args) =>
+        this.invoke({
+          method: CALLBACK_METHOD,
+          params: { ref, args },
+          to: owner,
+        } as InvokeOptions<any, any>),
+      release: (owner, ref, count) =>
+        this._sendInternal(CALLBACK_RELEASE_METHOD, { ref, count }, owner),
+    })
 
     if (loggerEnabled) {
       this.logger.enable()
@@ -183,11 +669,173 @@ export default class MessageNexus<
       })
     }
 
+    this.auth = options?.auth ?? {}
+    this.accessControl = options?.accessControl ? new AccessControl(options.accessControl) : null
+    this.authSessions = new AuthSessions({
+      refreshMargin: this.auth.refreshMargin ?? 5000,
+      onRefresh: (from) => this._sendInternal(AUTH_REFRESH_METHOD, {}, from),
+    })
+
+    const handshakeOptions: HandshakeOptions =
+      typeof options?.handshake === 'object' ? options.handshake : {}
+    this.capabilities = [...BUILTIN_CAPABILITIES, ...(handshakeOptions.capabilities ?? [])]
+    this.queueUntilReady = !!options?.handshake && (handshakeOptions.queueUntilReady ?? false)
+    this.handshake = new PeerHandshake({
+      retryInterval: handshakeOptions.retryInterval ?? 500,
+      sendHello: () => this._sendInternal(HELLO_METHOD, this._getHelloParams()),
+      onPeerReady: (peer) => {
+        this.logger.info('Peer ready', { ...peer })
+        // Started before the flush, so held messages wait for the session token
+        if (this.auth.getToken) {
+          this._refreshAuth(peer.instanceId)
+        }
+        if (this.queueUntilReady) {
+          this.flushQueue()
+        }
+      },
+    })
+
     this.driver.onMessage = (data) => this._handleIncoming(data)
     this.driver.onConnect = () => {
       this.logger.info('Driver connected, flushing message queue')
       this.flushQueue()
     }
+
+    if (options?.presence) {
+      const presenceOptions: PresenceOptions =
+        typeof options.presence === 'object' ? options.presence : {}
+      const interval = presenceOptions.interval ?? 5000
+      this.presenceMetadata = presenceOptions.metadata ?? {}
+      this.presence = new PresenceTracker({
+        interval,
+        timeout: presenceOptions.timeout ?? interval * 3,
+        sendHeartbeat: (to) =>
+          this._sendInternal(PRESENCE_HEARTBEAT_METHOD, { metadata: this.presenceMetadata }, to),
+        onJoin: (peer) => this._onPeerJoin(peer),
+        onLeave: (peer) => this._onPeerLeave(peer),
+      })
+    }
+
+    const chunkingOptions: ChunkingOptions =
+      typeof options?.chunking === 'object' ? options.chunking : {}
+    if (options?.chunking) {
+      this.chunkSize = chunkingOptions.chunkSize ?? 256 * 1024
+      this.chunkSender = new ChunkSender({
+        chunkSize: this.chunkSize,
+        send: (frame) => this._sendToDriver(frame),
+        onError: (message, error) => this._onChunkSendError(message, error),
+      })
+    }
+    this.chunkAssembler = new ChunkAssembler({
+      timeout: chunkingOptions.timeout ?? 30000,
+      maxMessageSize: chunkingOptions.maxMessageSize ?? 64 * 1024 * 1024,
+      maxPendingSize: chunkingOptions.maxPendingSize ?? 128 * 1024 * 1024,
+      onDrop: (from, id, reason) => {
+        this.logger.warn('Dropped chunked message', { from, id, reason })
+      },
+    })
+
+    const compressionOptions: CompressionOptions =
+      typeof options?.compression === 'object' ? options.compression : {}
+    if (options?.compression) {
+      this.compressor = compressionOptions.compressor ?? gzipCompressor
+      this.compressionThreshold = compressionOptions.threshold ?? 1024
+      this.compressors.set(this.compressor.name, this.compressor)
+    }
+    this.maxDecompressedSize = compressionOptions.maxDecompressedSize ?? 64 * 1024 * 1024
+    this.security = options?.security ? new EnvelopeSecurity(options.security) : null
+
+    this.discovery =
+      options?.discovery === false
+        ? null
+        : typeof options?.discovery === 'object'
+          ? options.discovery
+          : {}
+
+    if (options?.handshake) {
+      this.handshake.start()
+    }
+    this.presence?.start()
+  }
+
+  /**
+   * Resolves once any peer completed the hello/ack handshake.
+   * Starts the handshake if the `handshake` option was not set.
+   */
+  ready(): Promise<PeerInfo> {
+    return this.handshake.waitFor()
+  }
+
+  /**
+   * Resolves once the peer with `instanceId` completed the handshake.
+   */
+  whenPeerReady(instanceId: string): Promise<PeerInfo> {
+    return this.handshake.waitFor(instanceId)
+  }
+
+  /**
+   * Returns the peers currently known to be alive. Always empty unless `presence` is enabled.
+   */
+  getPeers(): PresencePeer[] {
+    return this.presence?.getPeers() ?? []
+  }
+
+  onPeerJoin(callback: PeerCallback) {
+    this.peerJoinCallbacks.add(callback)
+    return () => {
+      this.peerJoinCallbacks.delete(callback)
+    }
+  }
+
+  onPeerLeave(callback: PeerCallback) {
+    this.peerLeaveCallbacks.add(callback)
+    return () => {
+      this.peerLeaveCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * Called for every request and notification refused by `accessControl`.
+   */
+  onAccessDenied(callback: AccessDeniedCallback) {
+    this.accessDeniedCallbacks.add(callback)
+    return () => {
+      this.accessDeniedCallbacks.delete(callback)
+    }
+  }
+
+  private _onPeerJoin(peer: PresencePeer) {
+    this.logger.info('Peer joined', { instanceId: peer.instanceId })
+    this.peerJoinCallbacks.forEach((callback) => {
+      safeExecute(() => callback({ ...peer }), (error) => {
+        this.logger.error('Error in peer join callback', { error: String(error) })
+      })
+    })
+  }
+
+  private _onPeerLeave(peer: PresencePeer) {
+    this._releasePeer(peer.instanceId)
+    this.peerLeaveCallbacks.forEach((callback) => {
+      safeExecute(() => callback({ ...peer }), (error) => {
+        this.logger.error('Error in peer leave callback', { error: String(error) })
+      })
+    })
+  }
+
+  /**
+   * Drops everything kept for a peer that left. A peer coming back has to say hello again.
+   */
+  private _releasePeer(instanceId: string) {
+    const rejected = this.scheduler.rejectTasksTo(
+      instanceId,
+      new NexusError(`Peer disconnected: ${instanceId}`, NexusErrorCode.PeerDisconnected),
+    )
+    this._abortRequestsFrom(instanceId)
+    this.topics.removePeer(instanceId)
+    this.authSessions.remove(instanceId)
+    this.sessionTokens.delete(instanceId)
+    this.handshake.removePeer(instanceId)
+    this.logger.info('Peer left', { instanceId, rejectedTasks: rejected.length })
   }
 
   async invoke<K extends keyof InvokeMap>(
@@ -202,6 +850,11 @@ export default class MessageNexus<
     let timeout: number
     let retryCount = 0
     let retryDelay = 1000
+    let transfer: Transferable[] | undefined
+    let signal: AbortSignal | undefined
+    let onProgress: ProgressCallback | undefined
+    let paramsSchema: StandardSchema | undefined
+    let resultSchema: StandardSchema | undefined
 
     if (typeof methodOrOptions === 'string') {
       method = methodOrOptions as string
@@ -218,16 +871,54 @@ export default class MessageNexus<
       timeout = opts.timeout ?? this.timeout
       retryCount = opts.retryCount ?? 0
       retryDelay = opts.retryDelay ?? 1000
+      transfer = opts.transfer
+      signal = opts.signal
+      onProgress = opts.onProgress
+      paramsSchema = opts.paramsSchema
+      resultSchema = opts.resultSchema
     }
 
+    if (onProgress) {
+      metadata = { ...metadata, [PROGRESS_METADATA_KEY]: true }
+    }
+    if (paramsSchema) {
+      params = await validateSchema(
+        paramsSchema,
+        params,
+        `Invalid params for ${method}`,
+        NexusErrorCode.InvalidParams,
+      )
+    }
+    params = this.callbacks.serialize(params)
+
     const attempt = async (attemptNumber: number): Promise<GetResult<InvokeMap[K]>> => {
+      // Also covers an abort that happened while waiting for a retry
+      if (signal?.aborted) {
+        throw new NexusError(`Request aborted: ${method}`, NexusErrorCode.RequestCancelled)
+      }
+
+      const onAbort = () => {
+        const aborted = this.scheduler.rejectTask(
+          id,
+          new NexusError(`Request aborted: ${method}`, NexusErrorCode.RequestCancelled),
+        )
+        if (aborted) {
+          this._sendInternal(CANCEL_REQUEST_METHOD, { id }, to)
+        }
+      }
+
       try {
         const promise = this.scheduler.createTask<GetResult<InvokeMap[K]>>(
           id, method, timeout, 
           () => {
             this.metrics.messagesFailed++
-          }
+          },
+          to,
         )
+        signal?.addEventListener('abort', onAbort, { once: true })
+        if (onProgress) {
+          this.progressCallbacks.set(id, onProgress)
+        }
 
         const rpcRequest: JsonRpcRequest = {
           jsonrpc: '2.0',
@@ -244,13 +935,13 @@ export default class MessageNexus<
         }
 
         const isFinalAttempt = attemptNumber >= retryCount
-        this._sendMessage(message, !isFinalAttempt).catch(() => {
+        this._sendMessage(message, !isFinalAttempt, transfer).catch(() => {
           // Error is already handled inside _sendMessage
         })
 
         return await promise
       } catch (error) {
-        if (this._isDestroyed) {
+        if (this._isDestroyed || signal?.aborted) {
           throw error
         }
         if (attemptNumber < retryCount) {
@@ -260,50 +951,395 @@ export default class MessageNexus<
         }
         this.metrics.messagesFailed++
         throw error
+      } finally {
+        signal?.removeEventListener('abort', onAbort)
+        this.progressCallbacks.delete(id)
       }
     }
 
-    return attempt(0)
+    const result = await attempt(0)
+    if (!resultSchema) return result
+    return (await validateSchema(
+      resultSchema,
+      result,
+      `Invalid result of ${method}`,
+      NexusErrorCode.InvalidResponse,
+    )) as GetResult<InvokeMap[K]>
   }
 
-  private async _sendMessage(message: Message, skipQueue: boolean = false) {
-    const ctx: MiddlewareContext = {
-      message,
-      direction: 'outbound',
-      nexusInstanceId: this.instanceId
+  /**
+   * Asks a peer for the OpenRPC document of its handlers (`rpc.discover`).
+   */
+  discover(to?: string, options: ProxyCallOptions = {}): Promise<OpenRpcDocument> {
+    return this.invoke({
+      ...options,
+      method: DISCOVER_METHOD,
+      to: to ?? options.to,
+    } as InvokeOptions<any, any>) as Promise<OpenRpcDocument>
+  }
+
+  /**
+   * Sends the credentials of `auth.getToken` to a peer. Without `to`, they go to every peer
+   * known through the handshake or presence, resolving with the earliest expiry; when no peer
+   * is known yet, to the first peer answering a broadcast. Rejects with `Unauthorized` when a
+   * peer refuses them. Concurrent calls for the same peer share one attempt.
+   */
+  authenticate(to?: string, options: ProxyCallOptions = {}): Promise<{ expiresAt?: number }> {
+    const { getToken } = this.auth
+    if (!getToken) {
+      return Promise.reject(new Error('auth.getToken is required to authenticate'))
     }
 
-    try {
-      if (!this.requestPipeline.isEmpty) {
-        await this.requestPipeline.execute(ctx)
-      }
-    } catch (err) {
-      this.logger.error('Request interceptor failed', { error: String(err) })
-      this.metrics.messagesFailed++
-      const wrappedErr = err instanceof Error ? err : new Error(String(err))
-      safeExecute(() => this.errorHandler?.(wrappedErr, { message: ctx.message }))
-      
-      const payload = ctx.message.payload as any
-      if (payload && 'id' in payload) {
-        this.scheduler.rejectTask(String(payload.id), err instanceof Error ? err : new Error(String(err)))
-      }
-      return
+    const peers = new Set(
+      to === undefined
+        ? [...this.handshake.getPeers(), ...this.getPeers()].map((peer) => peer.instanceId)
+        : [],
+    )
+    if (peers.size > 0) {
+      return Promise.all(Array.from(peers, (peer) => this.authenticate(peer, options))).then(
+        (results) => {
+          const expiries = results.flatMap(({ expiresAt }) => expiresAt ?? [])
+          return expiries.length > 0 ? { expiresAt: Math.min(...expiries) } : {}
+        },
+      )
     }
 
-    const finalMessage = ctx.message
-    const payload = finalMessage.payload as JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
-    const isRequest = 'method' in payload
-    const messageId = 'id' in payload ? String(payload.id) : undefined
-    const typeOrMethod = isRequest ? payload.method : 'RESPONSE'
+    const key = to ?? ''
+    const pending = this.pendingAuth.get(key)
+    if (pending) return pending
+
+    const attempt = Promise.resolve()
+      .then(() => getToken())
+      .then(
+        (credentials) =>
+          this.invoke({
+            ...options,
+            method: AUTH_METHOD,
+            params: { credentials },
+            to,
+          } as InvokeOptions<any, any>) as Promise<AuthReply>,
+      )
+      .then(
+        ({ session, expiresAt, instanceId }) => {
+          this.sessionTokens.set(to ?? instanceId, session)
+          return { expiresAt }
+        },
+        (error) => {
+          if (to !== undefined) this.sessionTokens.delete(to)
+          throw error
+        },
+      )
+      .finally(() => this.pendingAuth.delete(key))
+    this.pendingAuth.set(key, attempt)
+    return attempt
+  }
 
-    try {
-      this.driver.send(finalMessage)
-      this.metrics.messagesSent++
-      this.logger.debug('Message sent', { messageId, type: typeOrMethod })
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error))
-      this.metrics.messagesFailed++
-      this.logger.error('Failed to send message', { error: err.message, messageId })
+  /**
+   * Broadcasts a request and gathers the responses of every peer that answers.
+   * Resolves when `maxResponses` arrived or `timeout` elapsed; rejects with `Timeout` if fewer
+   * than `minResponses` answered. Handler errors are returned as entries, not thrown.
+   */
+  async invokeAll<K extends keyof InvokeMap>(
+    method: K,
+    params?: GetParams<InvokeMap[K]>,
+    options: InvokeAllOptions = {},
+  ): Promise<InvokeAllResponse<GetResult<InvokeMap[K]>>[]> {
+    const id = crypto.randomUUID()
+    const { minResponses, maxResponses } = options
+
+    const promise = this.scheduler.createGatherTask<InvokeAllResponse<GetResult<InvokeMap[K]>>>(
+      id,
+      method as string,
+      options.timeout ?? this.timeout,
+      { minResponses, maxResponses },
+      () => {
+        this.metrics.messagesFailed++
+      },
+    )
+
+    const message: Message = {
+      from: this.instanceId,
+      metadata: { ...options.metadata, timestamp: Date.now() },
+      payload: {
+        jsonrpc: '2.0',
+        method: method as string,
+        params: this.callbacks.serialize(params),
+        id,
+      },
+    }
+
+    this._sendMessage(message).catch(() => {
+      // Error is already handled inside _sendMessage
+    })
+
+    return promise
+  }
+
+  /**
+   * Calls a stream handler on the peer and returns its chunks as an async iterator.
+   * Breaking out of a `for await` loop cancels the remote generator.
+   */
+  stream<K extends keyof InvokeMap>(
+    method: K,
+    params?: GetParams<InvokeMap[K]>,
+    options: StreamOptions = {},
+  ): AsyncIterableIterator<GetChunk<InvokeMap[K]>> {
+    const id = crypto.randomUUID()
+    const { to, signal } = options
+    const highWaterMark = options.highWaterMark ?? 16
+    const timeout = options.timeout ?? this.timeout
+
+    const cancel = () => {
+      const cancelled = this.scheduler.rejectTask(
+        id,
+        new NexusError(`Stream cancelled: ${method as string}`, NexusErrorCode.RequestCancelled),
+      )
+      if (cancelled) {
+        this._sendInternal(CANCEL_REQUEST_METHOD, { id }, to)
+      }
+    }
+
+    const stream = new RemoteStream<GetChunk<InvokeMap[K]>>({
+      highWaterMark,
+      onPull: (count) => {
+        this.scheduler.touchTask(id)
+        this._sendInternal(STREAM_PULL_METHOD, { id, count }, to)
+      },
+      onCancel: cancel,
+    })
+
+    if (signal?.aborted) {
+      stream.fail(
+        new NexusError(`Stream cancelled: ${method as string}`, NexusErrorCode.RequestCancelled),
+      )
+      return stream
+    }
+
+    this.streams.set(id, stream as RemoteStream)
+    signal?.addEventListener('abort', cancel, { once: true })
+
+    this.scheduler
+      .createTask(id, method as string, timeout, () => {
+        this.metrics.messagesFailed++
+      }, to)
+      .then(
+        () => stream.end(),
+        (error) => stream.fail(error),
+      )
+      .finally(() => {
+        this.streams.delete(id)
+        signal?.removeEventListener('abort', cancel)
+      })
+
+    const message: Message = {
+      from: this.instanceId,
+      to,
+      metadata: {
+        ...options.metadata,
+        [STREAM_METADATA_KEY]: { highWaterMark, timeout },
+        timestamp: Date.now(),
+      },
+      payload: { jsonrpc: '2.0', method: method as string, params, id },
+    }
+
+    this._sendMessage(message).catch(() => {
+      // Error is already handled inside _sendMessage
+    })
+
+    return stream
+  }
+
+  /**
+   * Returns a proxy that turns `api.user.get(params, options?)` into an `invoke` of `user.get`.
+   * `defaults` (e.g. `to`, `timeout`) apply to every call and can be overridden per call.
+   */
+  createProxy<M extends object = InvokeMap>(defaults: ProxyCallOptions = {}): RemoteProxy<M> {
+    return createRemoteProxy((method, params, options) =>
+      this.invoke({ ...defaults, ...options, method, params } as InvokeOptions<any, any>),
+    ) as RemoteProxy<M>
+  }
+
+  /**
+   * Sends several requests and notifications in one JSON-RPC batch envelope.
+   * Resolves with one settled result per call, in the order of `calls`.
+   */
+  async batch(
+    calls: BatchCall[],
+    options: BatchOptions = {},
+  ): Promise<PromiseSettledResult<unknown>[]> {
+    if (calls.length === 0) {
+      throw new NexusError('Batch must contain at least one call', NexusErrorCode.InvalidRequest)
+    }
+
+    const timeout = options.timeout ?? this.timeout
+    const tasks: Promise<unknown>[] = []
+
+    const payload: JsonRpcBatchRequest = calls.map((call) => {
+      if (call.notification) {
+        tasks.push(Promise.resolve(undefined))
+        return { jsonrpc: '2.0', method: call.method, params: this.callbacks.serialize(call.params) }
+      }
+      const id = crypto.randomUUID()
+      tasks.push(
+        this.scheduler.createTask(id, call.method, timeout, () => {
+          this.metrics.messagesFailed++
+        }, options.to),
+      )
+      return { jsonrpc: '2.0', method: call.method, params: this.callbacks.serialize(call.params), id }
+    })
+
+    const message: Message = {
+      from: this.instanceId,
+      to: options.to,
+      metadata: { ...options.metadata, timestamp: Date.now() },
+      payload,
+    }
+
+    this._sendMessage(message).catch(() => {
+      // Error is already handled inside _sendMessage
+    })
+
+    return Promise.allSettled(tasks)
+  }
+
+  /**
+   * Sends a library-level notification that bypasses the typed NotificationMap.
+   */
+  private _sendInternal(method: string, params: unknown, to?: string) {
+    const message: Message = {
+      from: this.instanceId,
+      to,
+      metadata: { timestamp: Date.now() },
+      payload: { jsonrpc: '2.0', method, params },
+    }
+    this._sendMessage(message).catch(() => {
+      // Error is already handled inside _sendMessage
+    })
+  }
+
+  private async _sendMessage(
+    message: Message,
+    skipQueue: boolean = false,
+    transfer?: Transferable[],
+  ) {
+    const ctx: MiddlewareContext = {
+      message,
+      direction: 'outbound',
+      nexusInstanceId: this.instanceId
+    }
+
+    try {
+      if (!this.requestPipeline.isEmpty) {
+        await this.requestPipeline.execute(ctx)
+      }
+    } catch (err) {
+      this.logger.error('Request interceptor failed', { error: String(err) })
+      this.metrics.messagesFailed++
+      const wrappedErr = err instanceof Error ? err : new Error(String(err))
+      safeExecute(() => this.errorHandler?.(wrappedErr, { message: ctx.message }))
+      
+      getPayloadIds(ctx.message.payload).forEach((id) => {
+        this.scheduler.rejectTask(id, wrappedErr)
+      })
+      return
+    }
+
+    if (transfer?.length) {
+      this.transferLists.set(ctx.message, transfer)
+    }
+
+    // Decided on the message as it was before sealing, which hides the hello methods.
+    if (this._isHeldUntilReady(ctx.message)) {
+      this.queue.enqueue(ctx.message)
+      this.heldMessages.add(ctx.message)
+      this.logger.debug('Message queued until handshake completes', {
+        messageId: getPayloadIds(ctx.message.payload)[0],
+      })
+      this._notifyMetrics()
+      return
+    }
+
+    await this._deliver(ctx.message, skipQueue)
+  }
+
+  /**
+   * Waits for an authentication with the recipient that is still in flight, so the message
+   * carries the token it hands out, then transmits it. Compression and signing are
+   * asynchronous; while either is enabled, messages pass through a chain that keeps them in
+   * the order they were sent.
+   */
+  private async _deliver(message: Message, skipQueue: boolean = false) {
+    const payload = message.payload
+    const pendingAuth = message.to !== undefined ? this.pendingAuth.get(message.to) : undefined
+    if (pendingAuth && !Array.isArray(payload) && 'method' in payload) {
+      if (!HANDSHAKE_METHODS.has(payload.method)) await pendingAuth.catch(() => {})
+    }
+
+    if (!this.security && !this.compressor) {
+      await this._transmit(message, skipQueue)
+      return
+    }
+    const transmitted = this.sendChain.then(() => this._transmit(message, skipQueue))
+    this.sendChain = transmitted.catch(() => {})
+    await transmitted
+  }
+
+  /**
+   * Prepares a message for the wire (session token, compression, signing) and hands it to the
+   * driver.
+   */
+  private async _transmit(message: Message, skipQueue: boolean) {
+    const payload = message.payload
+    const isBatch = Array.isArray(payload)
+    const isRequest = !isBatch && 'method' in payload
+    const messageId = !isBatch && 'id' in payload ? String(payload.id) : undefined
+    const typeOrMethod = isBatch ? 'BATCH' : isRequest ? payload.method : 'RESPONSE'
+
+    let finalMessage = this._withSessionToken(message)
+    const transfer = this.transferLists.get(message)
+    if (transfer && this.security) {
+      this.logger.warn('Signed messages are serialized, transferables will be copied', {
+        messageId,
+      })
+    }
+    if (transfer && !this.security) {
+      this.transferLists.set(finalMessage, transfer)
+    } else if (this.compressor) {
+      const encoded = new TextEncoder().encode(extendedJsonCodec.encode(finalMessage) as string)
+      if (encoded.length >= this.compressionThreshold) {
+        finalMessage = await this._compress(finalMessage, encoded, this.compressor)
+      }
+    }
+
+    if (this.security) {
+      try {
+        finalMessage = await this.security.seal(finalMessage)
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error))
+        this.logger.error('Failed to sign message', { error: err.message, messageId })
+        this.metrics.messagesFailed++
+        safeExecute(() => this.errorHandler?.(err, { message: finalMessage }))
+        getPayloadIds(payload).forEach((id) => {
+          this.scheduler.rejectTask(id, new NexusError(err.message, NexusErrorCode.SendFailed))
+        })
+        this._notifyMetrics()
+        return
+      }
+    }
+
+    const flow = getFlow(message)
+    if (flow !== undefined) {
+      this.messageFlows.set(finalMessage, flow)
+    }
+
+    try {
+      this._dispatch(finalMessage)
+      this.metrics.messagesSent++
+      this.logger.debug('Message sent', { messageId, type: typeOrMethod })
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error))
+      this.metrics.messagesFailed++
+      this.logger.error('Failed to send message', { error: err.message, messageId })
       safeExecute(() => this.errorHandler?.(err, { message: finalMessage }))
 
       const isDataError = err.name === 'NexusError' && (err as NexusError).code === NexusErrorCode.InvalidParams && err.message === 'Message payload cannot be cloned'
@@ -320,6 +1356,205 @@ export default class MessageNexus<
     this._notifyMetrics()
   }
 
+  /**
+   * Adds the session token `$/auth` handed out by the recipient. Broadcasts go without one.
+   */
+  private _withSessionToken(message: Message): Message {
+    const token = message.to !== undefined ? this.sessionTokens.get(message.to) : undefined
+    if (!token) return message
+    return { ...message, metadata: { ...message.metadata, [SESSION_METADATA_KEY]: token } }
+  }
+
+  /**
+   * Responses go out right away: the peer waiting for them is evidently there.
+   */
+  private _isHeldUntilReady(message: Message): boolean {
+    if (!this.queueUntilReady || this.handshake.isReady) return false
+    const payload = message.payload
+    if (Array.isArray(payload)) return payload.some((entry) => 'method' in entry)
+    if (!('method' in payload)) return false
+    return payload.method !== HELLO_METHOD && payload.method !== HELLO_ACK_METHOD
+  }
+
+  private _getHelloParams(): PeerInfo {
+    return {
+      instanceId: this.instanceId,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: this.capabilities,
+    }
+  }
+
+  private _dispatch(message: Message) {
+    if (this.chunkSender) {
+      const encoded = this.transferLists.has(message)
+        ? undefined
+        : (extendedJsonCodec.encode(message) as string)
+      const chunked = encoded !== undefined && encoded.length > this.chunkSize
+      this.chunkSender.send(message, chunked ? encoded : undefined, this.messageFlows.get(message))
+      return
+    }
+    this._sendToDriver(message)
+  }
+
+  private _sendToDriver(message: Message) {
+    const transfer = this.transferLists.get(message)
+    if (!transfer) {
+      this.driver.send(message)
+      return
+    }
+    if (this.driver.supportsTransfer) {
+      this.driver.send(message, transfer)
+    } else {
+      this.logger.warn('Driver does not support transferables, payload will be copied', {
+        driver: this.driver.constructor.name,
+      })
+      this.driver.send(message)
+    }
+  }
+
+  /**
+   * Wraps `message` in a `$/compressed` notification. Falls back to the original message
+   * when compression fails or does not make it smaller.
+   */
+  private async _compress(
+    message: Message,
+    encoded: Uint8Array,
+    compressor: Compressor,
+  ): Promise<Message> {
+    let compressed: Uint8Array
+    try {
+      compressed = await compressor.compress(encoded)
+    } catch (error) {
+      this.logger.warn('Compression failed, sending uncompressed', { error: String(error) })
+      return message
+    }
+    if (compressed.length >= encoded.length) return message
+
+    this.metrics.bytesBeforeCompression += encoded.length
+    this.metrics.bytesAfterCompression += compressed.length
+    return {
+      from: message.from,
+      to: message.to,
+      metadata: { timestamp: Date.now(), compression: compressor.name },
+      payload: {
+        jsonrpc: '2.0',
+        method: COMPRESSED_METHOD,
+        params: { data: bytesToBase64(compressed) },
+      },
+    }
+  }
+
+  /**
+   * Decompresses a `$/compressed` frame and unwraps the message it carries.
+   */
+  private async _handleCompressed(envelope: Message, verified: boolean): Promise<Message | null> {
+    if (envelope.from === this.instanceId) return null
+    if (envelope.to && envelope.to !== this.instanceId) return null
+
+    const name = envelope.metadata?.compression
+    const compressor = typeof name === 'string' ? this.compressors.get(name) : undefined
+    if (!compressor) {
+      this.logger.warn('Dropped message with unsupported compression', {
+        from: envelope.from,
+        compression: name,
+      })
+      return null
+    }
+
+    let message: unknown
+    try {
+      const params = (envelope.payload as JsonRpcNotification).params as { data: string }
+      const compressed = new Uint8Array(base64ToBuffer(params.data))
+      message = extendedJsonCodec.decode(
+        await compressor.decompress(compressed, this.maxDecompressedSize),
+      )
+    } catch (error) {
+      this.logger.error('Failed to decompress message', {
+        from: envelope.from,
+        error: String(error),
+      })
+      return null
+    }
+    return this._unwrap(message, verified)
+  }
+
+  /**
+   * Verifies a `$/secure` frame and unwraps the message it carries.
+   */
+  private async _handleSecure(envelope: Message): Promise<Message | null> {
+    if (envelope.from === this.instanceId) return null
+    if (envelope.to && envelope.to !== this.instanceId) return null
+
+    if (!this.security) {
+      this.logger.warn('Dropped secure message, no security keys configured', {
+        from: envelope.from,
+      })
+      return null
+    }
+
+    let message: unknown
+    try {
+      message = await this.security.open(envelope)
+    } catch (error) {
+      this.metrics.messagesFailed++
+      this.logger.warn('Rejected secure message', { from: envelope.from, reason: String(error) })
+      return null
+    }
+    return this._unwrap(message, true)
+  }
+
+  /**
+   * Replaces the keys of the `security` option. The first key signs from now on; keep the
+   * previous key in the list until every peer has switched.
+   */
+  setSecurityKeys(keys: SecurityKey[]) {
+    if (!this.security) {
+      throw new Error('Security is not enabled, set the security option')
+    }
+    this.security.setKeys(keys)
+  }
+
+  /**
+   * A chunk after the first, or a message that waited behind a chunked one, failed to send.
+   * The peer will never receive the message.
+   */
+  private _onChunkSendError(message: Message, error: unknown) {
+    const err = new NexusError(
+      `Failed to send message: ${error instanceof Error ? error.message : String(error)}`,
+      NexusErrorCode.SendFailed,
+    )
+    this.metrics.messagesFailed++
+    this.logger.error(err.message)
+    safeExecute(() => this.errorHandler?.(err, { message }))
+    getPayloadIds(message.payload).forEach((id) => {
+      this.scheduler.rejectTask(id, err)
+    })
+  }
+
+  /**
+   * Collects a `$/chunk` frame and unwraps the message once it is complete.
+   */
+  private async _handleChunk(envelope: Message): Promise<Message | null> {
+    if (envelope.from === this.instanceId) return null
+    if (envelope.to && envelope.to !== this.instanceId) return null
+
+    const payload = envelope.payload as JsonRpcNotification
+    const encoded = this.chunkAssembler.add(envelope.from, payload.params)
+    if (encoded === null) return null
+
+    let message: unknown
+    try {
+      message = extendedJsonCodec.decode(encoded)
+    } catch (error) {
+      this.logger.error('Failed to decode chunked message', {
+        from: envelope.from,
+        error: String(error),
+      })
+      return null
+    }
+    return this._unwrap(message, false)
+  }
+
   useRequestInterceptor(interceptor: RequestInterceptor) {
     return this.requestPipeline.use(async (ctx, next) => {
       ctx.message = await Promise.race([
@@ -352,11 +1587,18 @@ export default class MessageNexus<
   }
 
   flushQueue() {
+    if (this.queueUntilReady && !this.handshake.isReady) {
+      return
+    }
     while (!this.queue.isEmpty) {
       const message = this.queue.dequeue()
-      if (message) {
+      if (message && this.heldMessages.delete(message)) {
+        this._deliver(message).catch(() => {
+          // Error is already handled inside _transmit
+        })
+      } else if (message) {
         try {
-          this.driver.send(message)
+          this._dispatch(message)
         } catch (error) {
           const err = error instanceof Error ? error : new Error(String(error))
           const isDataError = err.name === 'NexusError' && (err as NexusError).code === NexusErrorCode.InvalidParams && err.message === 'Message payload cannot be cloned'
@@ -381,6 +1623,7 @@ export default class MessageNexus<
     let params: unknown
     let to: string | undefined
     let metadata: Record<string, unknown>
+    let transfer: Transferable[] | undefined
 
     if (typeof methodOrOptions === 'string') {
       method = methodOrOptions as string
@@ -393,12 +1636,13 @@ export default class MessageNexus<
       params = opts.params
       to = opts.to
       metadata = opts.metadata || {}
+      transfer = opts.transfer
     }
 
     const rpcNotification: JsonRpcNotification = {
       jsonrpc: '2.0',
       method,
-      params,
+      params: this.callbacks.serialize(params),
     }
 
     const message: Message = {
@@ -408,17 +1652,72 @@ export default class MessageNexus<
       payload: rpcNotification,
     }
 
-    await this._sendMessage(message)
+    await this._sendMessage(message, false, transfer)
   }
 
   async _handleIncoming(data: unknown) {
-    if (!EventRouter.validateMessage(data)) {
-      this.logger.error('Invalid message format received', { data })
-      safeExecute(() => this.errorHandler?.(new Error('Invalid message format received'), { data }))
-      this.metrics.messagesFailed++
+    if (this.unwrapping === 0 && !this.security && !isWrappedFrame(data)) {
+      if (this._validateIncoming(data)) await this._receive(data)
       return
     }
 
+    // Unwrapping is asynchronous, so later messages wait behind a frame that is being unwrapped
+    this.unwrapping++
+    const unwrapped = this.receiveChain.then(() => this._unwrap(data, false))
+    this.receiveChain = unwrapped.catch(() => null)
+    let message: Message | null
+    try {
+      message = await unwrapped
+    } finally {
+      this.unwrapping--
+    }
+    if (message) await this._receive(message)
+  }
+
+  private _validateIncoming(data: unknown): data is Message {
+    if (EventRouter.validateMessage(data)) return true
+    this.logger.error('Invalid message format received', { data })
+    safeExecute(() => this.errorHandler?.(new Error('Invalid message format received'), { data }))
+    this.metrics.messagesFailed++
+    return false
+  }
+
+  /**
+   * Takes a message out of its `$/chunk`, `$/secure` and `$/compressed` frames.
+   * Returns null when it is dropped or, for chunks, not complete yet.
+   *
+   * @param verified The message was unwrapped from a `$/secure` frame that passed verification.
+   */
+  private async _unwrap(data: unknown, verified: boolean): Promise<Message | null> {
+    if (!this._validateIncoming(data)) return null
+
+    const incoming = data
+    if (!Array.isArray(incoming.payload) && 'method' in incoming.payload) {
+      if (incoming.payload.method === CHUNK_METHOD) {
+        return this._handleChunk(incoming)
+      }
+      if (incoming.payload.method === SECURE_METHOD) {
+        return this._handleSecure(incoming)
+      }
+    }
+
+    if (this.security && !verified) {
+      if (incoming.from !== this.instanceId) {
+        this.metrics.messagesFailed++
+        this.logger.warn('Dropped unsigned message', { from: incoming.from })
+      }
+      return null
+    }
+
+    if (!Array.isArray(incoming.payload) && 'method' in incoming.payload) {
+      if (incoming.payload.method === COMPRESSED_METHOD) {
+        return this._handleCompressed(incoming, verified)
+      }
+    }
+    return incoming
+  }
+
+  private async _receive(data: Message) {
     const ctx: MiddlewareContext = {
       message: data as any,
       direction: 'inbound',
@@ -438,102 +1737,577 @@ export default class MessageNexus<
     }
 
     const envelope = ctx.message
-    const payload = envelope.payload as JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
 
     if (envelope.to && envelope.to !== this.instanceId) {
       this.logger.debug('Message filtered: not for this instance', {
-        messageId: 'id' in payload ? payload.id : undefined,
+        messageId: getPayloadIds(envelope.payload)[0],
         to: envelope.to,
         instanceId: this.instanceId,
       })
       return
     }
 
+    if (envelope.from !== this.instanceId) {
+      this.presence?.touch(envelope.from)
+    }
+
+    if (Array.isArray(envelope.payload)) {
+      await this._handleBatch(envelope.payload, envelope)
+      return
+    }
+
+    const payload = envelope.payload
+
     if ('result' in payload || 'error' in payload) {
-      const response = payload as JsonRpcResponse
-      const id = String(response.id)
-
-      if (this.scheduler.hasTask(id)) {
-        let latencyInfo
-        if (response.error) {
-          const err = new NexusError(
-            response.error.message,
-            response.error.code,
-            response.error.data,
-            response.error.name,
-            response.error.stack,
-          )
-          latencyInfo = this.scheduler.rejectTask(id, err)
-        } else {
-          latencyInfo = this.scheduler.resolveTask(id, response.result)
+      this._handleResponse(payload as JsonRpcResponse, envelope.from)
+      return
+    }
+
+    if ('method' in payload) {
+      if ('id' in payload) {
+        const request = payload as JsonRpcRequest
+
+        if (envelope.metadata?.[STREAM_METADATA_KEY]) {
+          await this._handleStreamRequest(request, envelope)
+          return
         }
 
-        if (latencyInfo) {
-          this.metrics.messagesReceived++
-          this.metrics.totalLatency += latencyInfo.latency
-          this.metrics.averageLatency = this.metrics.totalLatency / this.metrics.messagesReceived
-          this.logger.debug('Response received', { messageId: id, latency: latencyInfo.latency })
-          this._notifyMetrics()
+        const reply = await this._executeRequest(request, envelope)
+        if (reply) {
+          await this._sendMessage(
+            { from: this.instanceId, to: envelope.from, payload: reply.response },
+            false,
+            reply.transfer,
+          )
         }
       } else {
-        this.logger.warn('Orphaned response received', { messageId: id })
+        this._dispatchNotification(payload as JsonRpcNotification, envelope)
+      }
+    }
+  }
+
+  private _handleResponse(response: JsonRpcResponse, from: string) {
+    const id = String(response.id)
+    const err = response.error
+      ? new NexusError(
+          response.error.message,
+          response.error.code,
+          response.error.data,
+          response.error.name,
+          response.error.stack,
+        )
+      : undefined
+
+    if (this.scheduler.isGatherTask(id)) {
+      // Our own reply to a broadcast we received ourselves is not an answer from a peer
+      if (from !== this.instanceId) {
+        this.scheduler.gatherResponse(
+          id,
+          err ? { from, error: err } : { from, result: this.callbacks.deserialize(response.result, from) },
+        )
       }
       return
     }
 
-    if ('method' in payload) {
-      if ('id' in payload) {
-        const request = payload as JsonRpcRequest
-        const id = String(request.id)
+    if (this.scheduler.hasTask(id)) {
+      let latencyInfo
+      if (err) {
+        latencyInfo = this.scheduler.rejectTask(id, err)
+      } else {
+        latencyInfo = this.scheduler.resolveTask(id, this.callbacks.deserialize(response.result, from))
+      }
 
-        this.logger.debug('Invoke message received', {
-          messageId: id,
-          type: request.method,
-          from: envelope.from,
-        })
+      if (latencyInfo) {
+        this.metrics.messagesReceived++
+        this.metrics.totalLatency += latencyInfo.latency
+        this.metrics.averageLatency = this.metrics.totalLatency / this.metrics.messagesReceived
+        this.logger.debug('Response received', { messageId: id, latency: latencyInfo.latency })
+        this._notifyMetrics()
+      }
+    } else {
+      this.logger.warn('Orphaned response received', { messageId: id })
+    }
+  }
 
-        const context: InvokeContext = {
-          messageId: id,
-          from: envelope.from,
-          to: envelope.to,
-          metadata: envelope.metadata,
-        }
+  /**
+   * Runs the invoke handler for a request and builds its response.
+   * Returns null when the caller cancelled the request, since nobody waits for the reply.
+   */
+  private async _executeRequest(
+    request: JsonRpcRequest,
+    envelope: Message,
+  ): Promise<ReplyFrame | null> {
+    const id = String(request.id)
+
+    this.logger.debug('Invoke message received', {
+      messageId: id,
+      type: request.method,
+      from: envelope.from,
+    })
 
-        const handler = this.router.getInvokeHandler(request.method)
-        if (handler) {
-          try {
-            const result = await handler(request.params, context)
-            await this._reply(id, envelope.from, result)
-          } catch (error) {
-            await this._replyError(id, envelope.from, error)
-          }
-        } else {
-          const err = new NexusError(`Method not found: ${request.method}`, NexusErrorCode.MethodNotFound)
-          await this._replyError(id, envelope.from, err)
+    if (request.method !== AUTH_METHOD && !this._isAuthenticated(envelope)) {
+      const err = new NexusError('Unauthorized: authenticate first', NexusErrorCode.Unauthorized)
+      return { response: this._createErrorResponse(id, err) }
+    }
+    if (!this._checkAccess(request.method, envelope, id)) {
+      const err = new NexusError(`Forbidden: ${request.method}`, NexusErrorCode.Forbidden)
+      return { response: this._createErrorResponse(id, err) }
+    }
+
+    const handler = this._getInvokeHandler(request.method)
+    if (!handler) {
+      const err = new NexusError(`Method not found: ${request.method}`, NexusErrorCode.MethodNotFound)
+      return { response: this._createErrorResponse(id, err) }
+    }
+
+    const controller = new AbortController()
+    const requestKey = `${envelope.from}:${id}`
+    this.activeRequests.set(requestKey, controller)
+
+    const context: InvokeContext = {
+      messageId: id,
+      method: request.method,
+      from: envelope.from,
+      to: envelope.to,
+      metadata: envelope.metadata,
+      auth: this._getSession(envelope)?.principal,
+      signal: controller.signal,
+      reportProgress: (value, message) => {
+        if (envelope.metadata?.[PROGRESS_METADATA_KEY] && !controller.signal.aborted) {
+          this._sendInternal(PROGRESS_METHOD, { id, value, message }, envelope.from)
         }
-      } else {
-        const notification = payload as JsonRpcNotification
+      },
+    }
+
+    try {
+      const result = await handler(this.callbacks.deserialize(request.params, envelope.from), context)
+      if (controller.signal.aborted) return null
+      return {
+        response: { jsonrpc: '2.0', id, result: this.callbacks.serialize(result) },
+        transfer: takeTransferables(result),
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return null
+      return { response: this._createErrorResponse(id, error) }
+    } finally {
+      this.activeRequests.delete(requestKey)
+    }
+  }
+
+  /**
+   * Resolves built-in methods next to the registered handlers. A handler registered for
+   * `rpc.discover` itself replaces the built-in document.
+   */
+  private _getInvokeHandler(method: string): InvokeHandler | undefined {
+    if (method === CALLBACK_METHOD) {
+      return (params) => this._callFunction(params)
+    }
+    if (method === AUTH_METHOD) {
+      return (params, context) => this._verifyCredentials(params, context)
+    }
+    if (method === DISCOVER_METHOD && this.discovery && !this.router.hasInvokeHandler(method)) {
+      return () => this._describe()
+    }
+    return this.router.getInvokeHandler(method)
+  }
+
+  private async _verifyCredentials(params: unknown, context: InvokeContext): Promise<AuthReply> {
+    const { from } = context
+    if (!this.auth.authenticate) {
+      throw new NexusError(`Method not found: ${AUTH_METHOD}`, NexusErrorCode.MethodNotFound)
+    }
+
+    const { credentials } = (params ?? {}) as { credentials?: unknown }
+    const presentedToken = context.metadata?.[SESSION_METADATA_KEY]
+    let result: AuthResult
+    try {
+      result = await this.auth.authenticate(credentials, from)
+    } catch (error) {
+      // Anyone can claim `from`; only the session holder can end its session this way
+      if (this.authSessions.get(from, presentedToken)) {
+        this.authSessions.remove(from)
+      }
+      this.logger.warn('Peer failed to authenticate', { from, error: String(error) })
+      const message = error instanceof Error ? error.message : 'Authentication failed'
+      throw new NexusError(message, NexusErrorCode.Unauthorized)
+    }
+
+    const session = this.authSessions.set(from, result, presentedToken)
+    this.logger.info('Peer authenticated', { from, expiresAt: result.expiresAt })
+    return { session, expiresAt: result.expiresAt, instanceId: this.instanceId }
+  }
+
+  /**
+   * Looks up the session of the sender by its instance id and the token it presented.
+   */
+  private _getSession(envelope: Message): AuthResult | undefined {
+    return this.authSessions.get(envelope.from, envelope.metadata?.[SESSION_METADATA_KEY])
+  }
+
+  /**
+   * Peers need a valid session when `auth.authenticate` is set. Messages from this instance
+   * itself are always trusted.
+   */
+  private _isAuthenticated(envelope: Message): boolean {
+    return (
+      !this.auth.authenticate || envelope.from === this.instanceId || !!this._getSession(envelope)
+    )
+  }
+
+  /**
+   * Applies `accessControl` to a method and reports refusals. Handshake methods and messages
+   * from this instance itself are not subject to it.
+   */
+  private _checkAccess(method: string, envelope: Message, messageId?: string): boolean {
+    if (!this.accessControl || HANDSHAKE_METHODS.has(method) || envelope.from === this.instanceId) {
+      return true
+    }
+
+    const principal = this._getSession(envelope)?.principal
+    const origin = this.driver.origin
+    const decision = this.accessControl.check(method, { from: envelope.from, origin, principal })
+    if (decision.allowed) return true
+
+    const event: AccessDeniedEvent = {
+      method,
+      from: envelope.from,
+      origin,
+      principal,
+      messageId,
+      rule: decision.rule,
+      timestamp: Date.now(),
+    }
+    this.logger.warn('Access denied', { method, from: envelope.from, rule: decision.rule })
+    this.accessDeniedCallbacks.forEach((callback) => {
+      safeExecute(() => callback({ ...event }), (error) => {
+        this.logger.error('Error in access denied callback', { error: String(error) })
+      })
+    })
+    return false
+  }
 
-        this.logger.debug('Notification message received', {
-          type: notification.method,
-          from: envelope.from,
+  private _refreshAuth(to: string) {
+    this.authenticate(to).catch((error) => {
+      this.logger.error('Authentication failed', { to, error: String(error) })
+    })
+  }
+
+  private _describe(): OpenRpcDocument {
+    return buildOpenRpcDocument(
+      {
+        ...this.discovery,
+        title: this.discovery?.title ?? this.instanceId,
+        version: this.discovery?.version ?? '0.0.0',
+      },
+      this.router.describeMethods(),
+    )
+  }
+
+  private _dispatchNotification(notification: JsonRpcNotification, envelope: Message) {
+    if (this._handleInternalNotification(notification, envelope)) {
+      return
+    }
+
+    this.logger.debug('Notification message received', {
+      type: notification.method,
+      from: envelope.from,
+    })
+
+    if (!this._isAuthenticated(envelope)) {
+      this.logger.warn('Dropped notification from unauthenticated peer', {
+        type: notification.method,
+        from: envelope.from,
+      })
+      return
+    }
+    if (!this._checkAccess(notification.method, envelope)) return
+
+    const context: InvokeContext = {
+      method: notification.method,
+      from: envelope.from,
+      to: envelope.to,
+      metadata: envelope.metadata,
+      auth: this._getSession(envelope)?.principal,
+    }
+
+    const handlers = this.router.matchNotificationHandlers(notification.method)
+    if (handlers.length > 0) {
+      const params = this.callbacks.deserialize(notification.params, envelope.from)
+      handlers.forEach((handler) => {
+        safeExecute(() => handler(params, context), (error) => {
+          this.logger.error('Error in notification handler', { error: String(error) })
         })
+      })
+    }
+  }
+
+  /**
+   * Handles a JSON-RPC batch: entries run concurrently and all responses are sent back
+   * in a single batch. Notification-only batches get no reply.
+   */
+  private async _handleBatch(entries: unknown[], envelope: Message) {
+    if (entries.length === 0) {
+      const err = new NexusError('Invalid Request: empty batch', NexusErrorCode.InvalidRequest)
+      await this._sendMessage({
+        from: this.instanceId,
+        to: envelope.from,
+        payload: this._createErrorResponse(null, err),
+      })
+      return
+    }
+
+    this.logger.debug('Batch message received', { size: entries.length, from: envelope.from })
 
-        const context: InvokeContext = {
-          from: envelope.from,
-          to: envelope.to,
-          metadata: envelope.metadata,
+    const replies = await Promise.all(
+      entries.map(async (entry): Promise<ReplyFrame | null> => {
+        if (!EventRouter.validatePayload(entry)) {
+          const err = new NexusError('Invalid Request', NexusErrorCode.InvalidRequest)
+          return { response: this._createErrorResponse(null, err) }
+        }
+        if ('result' in entry || 'error' in entry) {
+          this._handleResponse(entry as JsonRpcResponse, envelope.from)
+          return null
+        }
+        if ('id' in entry) {
+          return this._executeRequest(entry as JsonRpcRequest, envelope)
         }
+        this._dispatchNotification(entry as JsonRpcNotification, envelope)
+        return null
+      }),
+    )
+
+    const frames = replies.filter((reply): reply is ReplyFrame => reply !== null)
+    if (frames.length === 0) return
+
+    await this._sendMessage(
+      {
+        from: this.instanceId,
+        to: envelope.from,
+        payload: frames.map((frame) => frame.response),
+      },
+      false,
+      frames.flatMap((frame) => frame.transfer ?? []),
+    )
+  }
 
-        const handlers = this.router.getNotificationHandlers(notification.method)
-        if (handlers) {
-          handlers.forEach((handler) => {
-            safeExecute(() => handler(notification.params, context), (error) => {
-              this.logger.error('Error in notification handler', { error: String(error) })
-            })
+  private async _handleStreamRequest(request: JsonRpcRequest, envelope: Message) {
+    const id = String(request.id)
+
+    this.logger.debug('Stream request received', {
+      messageId: id,
+      type: request.method,
+      from: envelope.from,
+    })
+
+    if (!this._isAuthenticated(envelope)) {
+      const err = new NexusError('Unauthorized: authenticate first', NexusErrorCode.Unauthorized)
+      await this._replyError(id, envelope.from, err)
+      return
+    }
+    if (!this._checkAccess(request.method, envelope, id)) {
+      const err = new NexusError(`Forbidden: ${request.method}`, NexusErrorCode.Forbidden)
+      await this._replyError(id, envelope.from, err)
+      return
+    }
+
+    const handler = this.router.getStreamHandler(request.method)
+    if (!handler) {
+      const err = new NexusError(
+        `Stream method not found: ${request.method}`,
+        NexusErrorCode.MethodNotFound,
+      )
+      await this._replyError(id, envelope.from, err)
+      return
+    }
+
+    const { highWaterMark, timeout } = envelope.metadata![STREAM_METADATA_KEY] as {
+      highWaterMark?: number
+      timeout?: number
+    }
+    const controller = new AbortController()
+    const requestKey = `${envelope.from}:${id}`
+    // The caller gives up after `timeout` without values, so credits will not come any later
+    const producer = new StreamProducer(
+      highWaterMark ?? 16,
+      controller.signal,
+      typeof timeout === 'number' ? timeout : this.timeout,
+      () => {
+        this.logger.warn('Stream consumer stalled', { messageId: id, from: envelope.from })
+        controller.abort(new NexusError('Stream consumer stalled', NexusErrorCode.Timeout))
+      },
+    )
+    this.activeRequests.set(requestKey, controller)
+    this.streamProducers.set(requestKey, producer)
+
+    const context: InvokeContext = {
+      messageId: id,
+      method: request.method,
+      from: envelope.from,
+      to: envelope.to,
+      metadata: envelope.metadata,
+      auth: this._getSession(envelope)?.principal,
+      signal: controller.signal,
+    }
+
+    try {
+      await producer.pump(handler(request.params, context), (value) => {
+        this._sendInternal(STREAM_CHUNK_METHOD, { id, value }, envelope.from)
+      })
+      if (!controller.signal.aborted) {
+        await this._reply(id, envelope.from, null)
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        await this._replyError(id, envelope.from, error)
+      }
+    } finally {
+      this.activeRequests.delete(requestKey)
+      this.streamProducers.delete(requestKey)
+    }
+  }
+
+  /**
+   * Handles reserved `$/` notifications used by the library itself.
+   * Returns true when the notification was consumed.
+   */
+  private _handleInternalNotification(
+    notification: JsonRpcNotification,
+    envelope: Message,
+  ): boolean {
+    const { from } = envelope
+    const params = notification.params as { id?: unknown; value?: unknown; count?: unknown }
+
+    switch (notification.method) {
+      case CANCEL_REQUEST_METHOD:
+        this._cancelIncoming(from, params)
+        return true
+      case STREAM_CHUNK_METHOD: {
+        const id = String(params?.id)
+        const stream = this.streams.get(id)
+        if (stream) {
+          this.scheduler.touchTask(id)
+          stream.push(params.value)
+        }
+        return true
+      }
+      case PROGRESS_METHOD: {
+        const id = String(params?.id)
+        const callback = this.progressCallbacks.get(id)
+        if (callback && this.scheduler.touchTask(id)) {
+          const { value, message } = params as { value: number; message?: string }
+          this.metrics.progressReceived++
+          safeExecute(() => callback(value, message), (error) => {
+            this.logger.error('Error in progress callback', { error: String(error) })
           })
+          this._notifyMetrics()
+        }
+        return true
+      }
+      case HELLO_METHOD:
+      case HELLO_ACK_METHOD:
+        this._handleHello(notification, from)
+        return true
+      case PRESENCE_HEARTBEAT_METHOD: {
+        if (from !== this.instanceId) {
+          const { metadata } = (params ?? {}) as { metadata?: Record<string, unknown> }
+          this.presence?.heartbeat(from, metadata ?? {})
         }
+        return true
       }
+      case PUBSUB_SUBSCRIBE_METHOD:
+      case PUBSUB_UNSUBSCRIBE_METHOD:
+      case PUBSUB_SYNC_METHOD:
+      case PUBSUB_PUBLISH_METHOD:
+        if (from !== this.instanceId && this._isAuthenticated(envelope)) {
+          this._handleTopicNotification(notification, from)
+        }
+        return true
+      case AUTH_REFRESH_METHOD:
+        if (from !== this.instanceId && this.auth.getToken) {
+          this._refreshAuth(from)
+        }
+        return true
+      case PRESENCE_LEAVE_METHOD:
+        // Anyone can claim `from`, so a leave has to carry the session of the peer it ends
+        if (!this._isAuthenticated(envelope)) return true
+        if (this.presence) {
+          this.presence.leave(from)
+        } else if (from !== this.instanceId && this.handshake.getPeer(from)) {
+          this._releasePeer(from)
+        }
+        return true
+      case CALLBACK_RELEASE_METHOD: {
+        const { ref, count } = params as { ref?: unknown; count?: unknown }
+        if (typeof ref === 'string' && typeof count === 'number') {
+          this.callbacks.releaseLocal(ref, count)
+        }
+        return true
+      }
+      case STREAM_PULL_METHOD: {
+        const producer = this.streamProducers.get(`${from}:${String(params?.id)}`)
+        if (producer && typeof params.count === 'number') {
+          producer.grant(params.count)
+        }
+        return true
+      }
+      default:
+        return false
+    }
+  }
+
+  private _handleHello(notification: JsonRpcNotification, from: string) {
+    // Drivers sharing an emitter deliver our own hello back to us
+    if (from === this.instanceId) return
+
+    const peer = notification.params as Partial<PeerInfo> | undefined
+    if (peer?.protocolVersion !== PROTOCOL_VERSION) {
+      this.logger.warn('Ignoring peer with incompatible protocol version', {
+        from,
+        protocolVersion: peer?.protocolVersion,
+        expected: PROTOCOL_VERSION,
+      })
+      return
+    }
+
+    if (notification.method === HELLO_METHOD) {
+      this._sendInternal(HELLO_ACK_METHOD, this._getHelloParams(), from)
+    }
+    this.handshake.addPeer({
+      instanceId: from,
+      protocolVersion: peer.protocolVersion,
+      capabilities: Array.isArray(peer.capabilities) ? peer.capabilities : [],
+    })
+  }
+
+  /**
+   * Runs a local function that a peer received as a remote reference.
+   */
+  private _callFunction(params: unknown) {
+    const { ref, args } = (params ?? {}) as { ref?: unknown; args?: unknown }
+    if (typeof ref !== 'string') {
+      throw new NexusError('Invalid function reference', NexusErrorCode.InvalidParams)
+    }
+    return this.callbacks.call(ref, Array.isArray(args) ? args : [])
+  }
+
+  /**
+   * Stops the handlers and stream producers still working for a peer that left.
+   */
+  private _abortRequestsFrom(from: string) {
+    const error = new NexusError(`Peer disconnected: ${from}`, NexusErrorCode.PeerDisconnected)
+    this.activeRequests.forEach((controller, key) => {
+      if (key.startsWith(`${from}:`)) controller.abort(error)
+    })
+  }
+
+  private _cancelIncoming(from: string, params: unknown) {
+    const id = (params as { id?: unknown } | undefined)?.id
+    if (id === undefined || id === null) return
+
+    const controller = this.activeRequests.get(`${from}:${String(id)}`)
+    if (controller) {
+      this.logger.debug('Request cancelled by caller', { messageId: String(id), from })
+      controller.abort(new NexusError('Request cancelled', NexusErrorCode.RequestCancelled))
     }
   }
 
@@ -621,32 +2395,251 @@ export default class MessageNexus<
     }
   }
 
+  /**
+   * Registers a request handler. A method containing `*` is a pattern (`files.*`) that
+   * handles every method without an exact handler; the most specific pattern wins.
+   */
   handle<K extends keyof InvokeMap>(
     method: K,
     handler: InvokeHandler<GetParams<InvokeMap[K]>, GetResult<InvokeMap[K]>>,
-  ) {
-    if (this.router.hasInvokeHandler(method as string)) {
-      this.logger.warn(`Overriding existing handler for method: ${method as string}`)
+    options?: HandlerOptions<GetParams<InvokeMap[K]>, GetResult<InvokeMap[K]>>,
+  ): () => boolean
+  handle(
+    pattern: `${string}*${string}`,
+    handler: InvokeHandler<any, unknown>,
+    options?: HandlerOptions,
+  ): () => boolean
+  handle(method: string, handler: InvokeHandler<any, any>, options: HandlerOptions = {}) {
+    if (this.router.hasInvokeHandler(method)) {
+      this.logger.warn(`Overriding existing handler for method: ${method}`)
+    }
+    const { description, paramsSchema, resultSchema } = options
+    const info = description || paramsSchema || resultSchema ? options : undefined
+    if (!paramsSchema && !resultSchema) {
+      return this.router.handle(method, handler, info)
+    }
+
+    const validated: InvokeHandler = async (params, context) => {
+      const name = context.method ?? method
+      const input = paramsSchema
+        ? await validateSchema(
+            paramsSchema,
+            params,
+            `Invalid params for ${name}`,
+            NexusErrorCode.InvalidParams,
+          )
+        : params
+      const result = await handler(input, context)
+      if (!resultSchema) return result
+      return validateSchema(
+        resultSchema,
+        result,
+        `Invalid result of ${name}`,
+        NexusErrorCode.InternalError,
+      )
     }
-    return this.router.handle(method as string, handler as InvokeHandler<any, any>)
+    return this.router.handle(method, validated, info)
   }
 
-  removeHandler(method: keyof InvokeMap) {
+  removeHandler(method: keyof InvokeMap | `${string}*${string}`) {
     this.router.removeHandler(method as string)
   }
 
+  /**
+   * Handles requests for methods without an exact or pattern handler, instead of replying
+   * `MethodNotFound`. Throw from the handler to reply with an error. Returns a disposer.
+   */
+  setDefaultHandler(handler: InvokeHandler<any, unknown>) {
+    this.router.setDefaultHandler(handler)
+    return () => this.router.setDefaultHandler(null)
+  }
+
+  /**
+   * Registers every public method of `service` as a `namespace.method` handler.
+   * Methods are called with `this` bound to `service` and receive `(params, context)`.
+   * Returns a single disposer that removes all registered handlers.
+   */
+  expose<T extends object>(namespace: string, service: T, options: ExposeOptions<T> = {}) {
+    const { include, exclude, inherited = false } = options
+    const names = getPublicMethodNames(service, inherited || !!include).filter(
+      (name) =>
+        (!include || include.includes(name as keyof T & string)) &&
+        !exclude?.includes(name as keyof T & string),
+    )
+
+    const disposers = names.map((name) => {
+      const method = namespace ? `${namespace}.${name}` : name
+      const fn = (service as Record<string, Function>)[name]
+      return this.handle(method as keyof InvokeMap, (params, context) =>
+        fn.call(service, params, context),
+      )
+    })
+
+    this.logger.debug('Service exposed', { namespace, methods: names })
+
+    return () => {
+      disposers.forEach((dispose) => dispose())
+    }
+  }
+
+  /**
+   * Marks `fn` to be sent as a remote reference: the peer receives a function that calls
+   * back into this instance and always returns a Promise.
+   */
+  proxyFunction<T extends (...args: any[]) => unknown>(fn: T): T {
+    return proxyFunction(fn)
+  }
+
+  /**
+   * Registers a generator (or any iterable) whose values are streamed to `stream()` callers.
+   */
+  handleStream<K extends keyof InvokeMap>(
+    method: K,
+    handler: StreamHandler<GetParams<InvokeMap[K]>, GetChunk<InvokeMap[K]>>,
+  ) {
+    if (this.router.hasStreamHandler(method as string)) {
+      this.logger.warn(`Overriding existing stream handler for method: ${method as string}`)
+    }
+    return this.router.handleStream(method as string, handler as StreamHandler<any, any>)
+  }
+
+  removeStreamHandler(method: keyof InvokeMap) {
+    this.router.removeStreamHandler(method as string)
+  }
+
+  /**
+   * Registers a notification handler. A method containing `*` is a pattern; `*` alone
+   * receives every application notification. All matching handlers run, exact ones first.
+   */
   onNotification<K extends keyof NotificationMap>(
     method: K,
     handler: NotificationHandler<NotificationMap[K]>,
-  ) {
-    return this.router.onNotification(method as string, handler as NotificationHandler<any>)
+  ): () => void
+  onNotification(pattern: `${string}*${string}`, handler: NotificationHandler<any>): () => void
+  onNotification(method: string, handler: NotificationHandler<any>) {
+    return this.router.onNotification(method, handler)
   }
 
   offNotification<K extends keyof NotificationMap>(
     method: K,
     handler: NotificationHandler<NotificationMap[K]>,
-  ) {
-    this.router.offNotification(method as string, handler as NotificationHandler<any>)
+  ): void
+  offNotification(pattern: `${string}*${string}`, handler: NotificationHandler<any>): void
+  offNotification(method: string, handler: NotificationHandler<any>) {
+    this.router.offNotification(method, handler)
+  }
+
+  /**
+   * Subscribes to every topic matching `pattern`, where `*` matches one dot-separated segment
+   * and a trailing `#` any number of segments. The pattern is advertised to peers so publishers
+   * only send where there is interest. Returns a function that unsubscribes.
+   */
+  subscribe<T = unknown>(pattern: string, handler: TopicHandler<T>) {
+    assertTopicPattern(pattern)
+    this._syncTopics()
+
+    if (this.topics.subscribe(pattern, handler)) {
+      this._sendInternal(PUBSUB_SUBSCRIBE_METHOD, { patterns: [pattern] })
+    }
+
+    // Values retained by peers arrive once they see the subscription; replay ours the same way
+    const retained = this.topics.getRetained([pattern])
+    queueMicrotask(() => {
+      retained.forEach(([topic, data]) => {
+        safeExecute(() => handler(data as T, { topic, from: this.instanceId, retained: true }))
+      })
+    })
+
+    return () => {
+      if (this.topics.unsubscribe(pattern, handler)) {
+        this._sendInternal(PUBSUB_UNSUBSCRIBE_METHOD, { patterns: [pattern] })
+      }
+    }
+  }
+
+  /**
+   * Publishes `data` to local subscribers and to the peers subscribed to a matching pattern.
+   * Interest of peers is learned asynchronously, so a publish right after creating the
+   * instance may miss them; use `retain` for values late subscribers must see.
+   */
+  async publish(topic: string, data?: unknown, options: PublishOptions = {}): Promise<void> {
+    assertTopic(topic)
+    this._syncTopics()
+
+    if (options.retain) {
+      this.topics.retain(topic, data)
+      if (data === undefined) return
+    }
+
+    this._deliverTopic(topic, data, this.instanceId, false)
+
+    const params = { topic, data: this.callbacks.serialize(data) }
+    await Promise.all(
+      this.topics.getInterestedPeers(topic).map((peer) =>
+        this._sendMessage({
+          from: this.instanceId,
+          to: peer,
+          metadata: { timestamp: Date.now() },
+          payload: { jsonrpc: '2.0', method: PUBSUB_PUBLISH_METHOD, params },
+        }),
+      ),
+    )
+  }
+
+  /**
+   * Asks peers to advertise their subscriptions, once per instance.
+   */
+  private _syncTopics() {
+    if (this.topicsSynced) return
+    this.topicsSynced = true
+    this._sendInternal(PUBSUB_SYNC_METHOD, undefined)
+  }
+
+  private _handleTopicNotification(notification: JsonRpcNotification, from: string) {
+    const params = (notification.params ?? {}) as {
+      patterns?: unknown
+      topic?: unknown
+      data?: unknown
+      retained?: unknown
+    }
+    const patterns = Array.isArray(params.patterns)
+      ? params.patterns.filter((pattern): pattern is string => typeof pattern === 'string')
+      : []
+
+    switch (notification.method) {
+      case PUBSUB_SUBSCRIBE_METHOD:
+        this.topics.addInterest(from, patterns)
+        this.topics.getRetained(patterns).forEach(([topic, data]) => {
+          this._sendInternal(
+            PUBSUB_PUBLISH_METHOD,
+            { topic, data: this.callbacks.serialize(data), retained: true },
+            from,
+          )
+        })
+        break
+      case PUBSUB_UNSUBSCRIBE_METHOD:
+        this.topics.removeInterest(from, patterns)
+        break
+      case PUBSUB_SYNC_METHOD:
+        if (this.topics.patterns.length > 0) {
+          this._sendInternal(PUBSUB_SUBSCRIBE_METHOD, { patterns: this.topics.patterns }, from)
+        }
+        break
+      case PUBSUB_PUBLISH_METHOD:
+        if (typeof params.topic === 'string') {
+          const data = this.callbacks.deserialize(params.data, from)
+          this._deliverTopic(params.topic, data, from, params.retained === true)
+        }
+        break
+    }
+  }
+
+  private _deliverTopic(topic: string, data: unknown, from: string, retained: boolean) {
+    this.topics.getHandlers(topic).forEach((handler) => {
+      safeExecute(() => handler(data, { topic, from, retained }), (error) => {
+        this.logger.error('Error in topic handler', { topic, error: String(error) })
+      })
+    })
   }
 
   private async _reply(messageId: string, to: string, payload: unknown) {
@@ -662,15 +2655,25 @@ export default class MessageNexus<
       payload: rpcResponse,
     }
 
-    await this._sendMessage(message)
+    await this._sendMessage(message, false, takeTransferables(payload))
   }
 
   private async _replyError(messageId: string, to: string, error: unknown) {
+    const message: Message = {
+      from: this.instanceId,
+      to,
+      payload: this._createErrorResponse(messageId, error),
+    }
+
+    await this._sendMessage(message)
+  }
+
+  private _createErrorResponse(messageId: JsonRpcId, error: unknown): JsonRpcResponse {
     const err = error instanceof NexusError ? error : 
                 error instanceof Error ? new NexusError(error.message, NexusErrorCode.InternalError, undefined, error.name, error.stack) :
                 new NexusError(String(error), NexusErrorCode.InternalError)
 
-    const rpcResponse: JsonRpcResponse = {
+    return {
       jsonrpc: '2.0',
       id: messageId,
       error: {
@@ -681,14 +2684,6 @@ export default class MessageNexus<
         stack: err.stack,
       },
     }
-
-    const message: Message = {
-      from: this.instanceId,
-      to,
-      payload: rpcResponse,
-    }
-
-    await this._sendMessage(message)
   }
 
   /**
@@ -719,24 +2714,61 @@ export default class MessageNexus<
       metrics: this.getMetrics(),
     })
 
+    // Let peers drop the functions they exposed to us while the driver can still send
+    this.callbacks.clear()
+    this.chunkSender?.clear()
+    this.chunkAssembler.clear()
+    this.security?.clear()
+    if (this.topics.patterns.length > 0) {
+      this._sendInternal(PUBSUB_UNSUBSCRIBE_METHOD, { patterns: this.topics.patterns })
+    }
+    if (this.presence || this.handshake.isReady) {
+      // Peers we authenticated with only accept a leave that carries our session token
+      this.sessionTokens.forEach((_token, peer) => {
+        this._sendInternal(PRESENCE_LEAVE_METHOD, undefined, peer)
+      })
+      this._sendInternal(PRESENCE_LEAVE_METHOD, undefined)
+    }
+    this.authSessions.clear()
+    this.sessionTokens.clear()
+    this.presence?.stop()
     this.driver.destroy?.()
 
     this.scheduler.clearTasks(new NexusError('MessageNexus instance destroyed', NexusErrorCode.InstanceDestroyed))
+    this.handshake.clear(new NexusError('MessageNexus instance destroyed', NexusErrorCode.InstanceDestroyed))
+    this.activeRequests.forEach((controller) => controller.abort())
+    this.activeRequests.clear()
+    this.streamProducers.clear()
     this.queue.clear()
     this.router.clear()
     this.requestPipeline.clear()
     this.responsePipeline.clear()
     this.metricsCallbacks.clear()
+    this.peerJoinCallbacks.clear()
+    this.peerLeaveCallbacks.clear()
+    this.accessDeniedCallbacks.clear()
+    this.topics.clear()
   }
 }
 
+registerNexus(MessageNexus)
+
 export {
   BaseDriver,
   BroadcastDriver,
   MittDriver,
+  MessagePortDriver,
   PostMessageDriver,
+  SharedConnectionDriver,
   WebSocketDriver,
   createEmitter,
+  transfer,
+  jsonCodec,
+  extendedJsonCodec,
+  msgpackCodec,
+  gzipCompressor,
+  deflateCompressor,
+  createStreamCompressor,
   LogLevel,
   NexusError,
   NexusErrorCode,
@@ -745,6 +2777,47 @@ export {
   MessageQueue,
   RpcScheduler,
   MiddlewarePipeline,
-  EventRouter
+  EventRouter,
+  RemoteStream,
+  StreamProducer,
+  LeaderElector,
+  NexusRouter,
+}
+export type {
+  Message,
+  MessagePortLike,
+  SharedConnectionDriverOptions,
+  WebSocketDriverOptions,
+  Codec,
+  Compressor,
+  SecurityKey,
+  SecurityOptions,
+  AuthResult,
+  AccessControlOptions,
+  AccessRule,
+  LoggerInterface,
+  SimpleLogger,
+  PeerInfo,
+  PresencePeer,
+  TopicContext,
+  TopicHandler,
+  StandardSchema,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  SchemaIssue,
+  StandardJsonSchema,
+  OpenRpcDocument,
+  OpenRpcMethod,
+  OpenRpcContentDescriptor,
+  LeaderElectorOptions,
+  LeadershipChangeCallback,
+  NexusRouterOptions,
+  RouterPortOptions,
+  MethodPolicy,
+  MethodPattern,
+  InvokeContext,
+  InvokeHandler,
+  NotificationHandler,
+  StreamHandler,
+  MiddlewareContext,
 }
-export type { Message, LoggerInterface, SimpleLogger, InvokeContext, InvokeHandler, NotificationHandler, MiddlewareContext }
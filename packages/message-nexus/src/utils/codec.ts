@@ -0,0 +1,180 @@
+/**
+ * Turns envelopes into frames and back. Text codecs produce strings, binary codecs bytes.
+ */
+export interface Codec {
+  /** Identifies the codec when drivers negotiate one, e.g. as a WebSocket subprotocol. */
+  readonly name: string
+  readonly type: 'text' | 'binary'
+  encode(value: unknown): string | Uint8Array
+  decode(data: string | ArrayBuffer | Uint8Array): unknown
+}
+
+export function toText(data: string | ArrayBuffer | Uint8Array): string {
+  return typeof data === 'string' ? data : new TextDecoder().decode(data)
+}
+
+export function toBytes(data: string | ArrayBuffer | Uint8Array): Uint8Array {
+  if (typeof data === 'string') return new TextEncoder().encode(data)
+  return data instanceof Uint8Array ? data : new Uint8Array(data)
+}
+
+/**
+ * Plain JSON. `Date` becomes a string; `Map`, `Set` and typed arrays lose their content,
+ * `undefined` object properties are dropped and `BigInt` throws.
+ */
+export const jsonCodec: Codec = {
+  name: 'json',
+  type: 'text',
+  encode: (value) => JSON.stringify(value),
+  decode: (data) => JSON.parse(toText(data)),
+}
+
+const TAG = '$type'
+
+const TYPED_ARRAYS = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+}
+
+type TypedArrayName = keyof typeof TYPED_ARRAYS
+
+function getViewName(view: ArrayBufferView): string {
+  if (view instanceof DataView) return 'DataView'
+  const names = Object.keys(TYPED_ARRAYS) as TypedArrayName[]
+  // Subclasses such as Node's Buffer are sent as their base type
+  return names.find((name) => view instanceof TYPED_ARRAYS[name]) ?? 'Uint8Array'
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64)
+  const buffer = new ArrayBuffer(binary.length)
+  const bytes = new Uint8Array(buffer)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return buffer
+}
+
+/**
+ * Rewrites rich values as `{ $type, value }` records. Plain objects that have a `$type`
+ * key of their own are wrapped too, so they are not mistaken for records when decoding.
+ */
+function serializeValue(value: unknown, seen: Set<object>): unknown {
+  if (value === undefined) return { [TAG]: 'undefined' }
+  if (typeof value === 'bigint') return { [TAG]: 'BigInt', value: value.toString() }
+  if (typeof value === 'number') {
+    if (Number.isFinite(value) && !Object.is(value, -0)) return value
+    return { [TAG]: 'Number', value: Object.is(value, -0) ? '-0' : String(value) }
+  }
+  if (value === null || typeof value !== 'object') return value
+
+  if (seen.has(value)) {
+    throw new TypeError('Cannot encode circular structure')
+  }
+  seen.add(value)
+  try {
+    if (Array.isArray(value)) return value.map((item) => serializeValue(item, seen))
+    if (value instanceof Date) {
+      const time = value.getTime()
+      return { [TAG]: 'Date', value: Number.isNaN(time) ? null : value.toISOString() }
+    }
+    if (value instanceof RegExp) {
+      return { [TAG]: 'RegExp', value: { source: value.source, flags: value.flags } }
+    }
+    if (value instanceof Map) {
+      return {
+        [TAG]: 'Map',
+        value: Array.from(value, ([k, v]) => [serializeValue(k, seen), serializeValue(v, seen)]),
+      }
+    }
+    if (value instanceof Set) {
+      return { [TAG]: 'Set', value: Array.from(value, (item) => serializeValue(item, seen)) }
+    }
+    if (value instanceof ArrayBuffer) {
+      return { [TAG]: 'ArrayBuffer', value: bytesToBase64(new Uint8Array(value)) }
+    }
+    if (ArrayBuffer.isView(value)) {
+      const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+      return { [TAG]: getViewName(value), value: bytesToBase64(bytes) }
+    }
+
+    const entries = Object.entries(value).map(([k, v]) => [k, serializeValue(v, seen)])
+    const object = Object.fromEntries(entries)
+    return TAG in object ? { [TAG]: 'Object', value: object } : object
+  } finally {
+    seen.delete(value)
+  }
+}
+
+function deserializeValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map(deserializeValue)
+
+  const record = value as Record<string, any>
+  if (!(TAG in record)) {
+    return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, deserializeValue(v)]))
+  }
+
+  const type = record[TAG] as string
+  const data = record.value
+  switch (type) {
+    case 'undefined':
+      return undefined
+    case 'BigInt':
+      return BigInt(data)
+    case 'Number':
+      return Number(data)
+    case 'Date':
+      return new Date(data ?? NaN)
+    case 'RegExp':
+      return new RegExp(data.source, data.flags)
+    case 'Map':
+      return new Map(
+        (data as [unknown, unknown][]).map(([k, v]) => [deserializeValue(k), deserializeValue(v)]),
+      )
+    case 'Set':
+      return new Set((data as unknown[]).map(deserializeValue))
+    case 'ArrayBuffer':
+      return base64ToBuffer(data)
+    case 'DataView':
+      return new DataView(base64ToBuffer(data))
+    case 'Object':
+      return Object.fromEntries(
+        Object.entries(data as Record<string, unknown>).map(([k, v]) => [k, deserializeValue(v)]),
+      )
+    default: {
+      if (!(type in TYPED_ARRAYS)) {
+        throw new TypeError(`Unknown extended JSON type: ${type}`)
+      }
+      const Constructor = TYPED_ARRAYS[type as TypedArrayName]
+      return new Constructor(base64ToBuffer(data))
+    }
+  }
+}
+
+/**
+ * JSON that round-trips `Date`, `Map`, `Set`, `BigInt`, `RegExp`, `undefined`, `NaN`,
+ * `Infinity`, `-0`, `ArrayBuffer` and typed arrays. Other class instances are sent as
+ * plain objects.
+ */
+export const extendedJsonCodec: Codec = {
+  name: 'ejson',
+  type: 'text',
+  encode: (value) => JSON.stringify(serializeValue(value, new Set())),
+  decode: (data) => deserializeValue(JSON.parse(toText(data))),
+}
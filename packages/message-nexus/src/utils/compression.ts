@@ -0,0 +1,64 @@
+/**
+ * Compresses message bodies. Both ends need a compressor of the same name.
+ */
+export interface Compressor {
+  /** Sent as `metadata.compression` so the receiver picks the matching compressor. */
+  readonly name: string
+  compress(data: Uint8Array): Promise<Uint8Array>
+  /** Must reject when the output would exceed `maxSize` bytes. */
+  decompress(data: Uint8Array, maxSize: number): Promise<Uint8Array>
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset)
+    offset += chunk.length
+  })
+  return result
+}
+
+/**
+ * Runs `data` through a transform stream. Reading stops as soon as the output exceeds
+ * `maxSize`, so a small malicious payload cannot inflate without bound.
+ */
+async function pipe(
+  data: Uint8Array,
+  transform: TransformStream<BufferSource, Uint8Array>,
+  maxSize = Infinity,
+): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter()
+  // Not awaited: the writer only resolves once the output is read below
+  writer.write(data as Uint8Array<ArrayBuffer>).catch(() => {})
+  writer.close().catch(() => {})
+
+  const reader = transform.readable.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > maxSize) {
+      await reader.cancel()
+      throw new RangeError(`Decompressed data exceeds ${maxSize} bytes`)
+    }
+    chunks.push(value)
+  }
+  return concat(chunks, size)
+}
+
+/**
+ * A compressor backed by the platform's `CompressionStream` and `DecompressionStream`.
+ */
+export function createStreamCompressor(format: 'gzip' | 'deflate' | 'deflate-raw'): Compressor {
+  return {
+    name: format,
+    compress: (data) => pipe(data, new CompressionStream(format)),
+    decompress: (data, maxSize) => pipe(data, new DecompressionStream(format), maxSize),
+  }
+}
+
+export const gzipCompressor = createStreamCompressor('gzip')
+export const deflateCompressor = createStreamCompressor('deflate')
@@ -1 +1,122 @@
 export const MESSAGE_NEXUS_PROTOCOL = 'message-nexus-v1'
+
+/**
+ * Reserved notification used to cancel an in-flight request (LSP-style).
+ */
+export const CANCEL_REQUEST_METHOD = '$/cancelRequest'
+
+/**
+ * Reserved notifications carrying stream chunks (handler -> caller) and credits (caller -> handler).
+ */
+export const STREAM_CHUNK_METHOD = '$/stream/chunk'
+export const STREAM_PULL_METHOD = '$/stream/pull'
+
+/**
+ * Envelope metadata key marking a request as a stream request. The `$` prefix keeps it apart
+ * from application metadata.
+ */
+export const STREAM_METADATA_KEY = '$stream'
+
+/**
+ * Reserved notification reporting progress of a pending request.
+ */
+export const PROGRESS_METHOD = '$/progress'
+
+/** Envelope metadata key a caller sets when it wants `$/progress` reports for a request. */
+export const PROGRESS_METADATA_KEY = '$progress'
+
+/**
+ * Reserved request calling a proxied function, and notification releasing references to it.
+ */
+export const CALLBACK_METHOD = '$/callback'
+export const CALLBACK_RELEASE_METHOD = '$/callback/release'
+
+/**
+ * Reserved notifications of the peer handshake, and the protocol version they announce.
+ */
+export const HELLO_METHOD = '$/hello'
+export const HELLO_ACK_METHOD = '$/hello/ack'
+export const PROTOCOL_VERSION = 1
+
+/**
+ * Features every instance supports, announced during the handshake.
+ */
+export const BUILTIN_CAPABILITIES = [
+  'batch',
+  'stream',
+  'progress',
+  'cancel',
+  'callbacks',
+  'chunks',
+  'compression',
+]
+
+/**
+ * Reserved notifications of the presence subsystem.
+ */
+export const PRESENCE_HEARTBEAT_METHOD = '$/presence/heartbeat'
+export const PRESENCE_LEAVE_METHOD = '$/presence/leave'
+
+/**
+ * Reserved notifications of `LeaderElector`.
+ */
+export const LEADER_HEARTBEAT_METHOD = '$/leader/heartbeat'
+export const LEADER_CLAIM_METHOD = '$/leader/claim'
+export const LEADER_RESIGN_METHOD = '$/leader/resign'
+
+/**
+ * Reserved notifications between tabs of a `SharedConnectionDriver`.
+ */
+export const RELAY_OUTBOUND_METHOD = '$/relay/outbound'
+export const RELAY_INBOUND_METHOD = '$/relay/inbound'
+export const RELAY_STATUS_METHOD = '$/relay/status'
+export const RELAY_QUERY_METHOD = '$/relay/query'
+
+/**
+ * Reserved notifications of topic pub/sub.
+ */
+export const PUBSUB_SUBSCRIBE_METHOD = '$/pubsub/subscribe'
+export const PUBSUB_UNSUBSCRIBE_METHOD = '$/pubsub/unsubscribe'
+export const PUBSUB_SYNC_METHOD = '$/pubsub/sync'
+export const PUBSUB_PUBLISH_METHOD = '$/pubsub/publish'
+
+/**
+ * Built-in method returning an OpenRPC document of the registered handlers.
+ * Named by the OpenRPC specification, so it is not under the reserved `$/` prefix.
+ */
+export const DISCOVER_METHOD = 'rpc.discover'
+
+export const OPENRPC_VERSION = '1.3.2'
+
+/**
+ * Reserved notification carrying one part of a message too large to send at once.
+ */
+export const CHUNK_METHOD = '$/chunk'
+
+/**
+ * Reserved notification wrapping a compressed message. `metadata.compression` names the
+ * compressor.
+ */
+export const COMPRESSED_METHOD = '$/compressed'
+
+/**
+ * Reserved notification carrying a signed, optionally encrypted message.
+ */
+export const SECURE_METHOD = '$/secure'
+
+/** Frames that carry another message, whose own method is only known once unwrapped. */
+export const WRAPPER_METHODS: ReadonlySet<string> = new Set([
+  CHUNK_METHOD,
+  COMPRESSED_METHOD,
+  SECURE_METHOD,
+])
+
+/**
+ * Reserved request carrying credentials, and notification asking the peer to send fresh ones
+ * before its session expires.
+ */
+export const AUTH_METHOD = '$/auth'
+export const AUTH_REFRESH_METHOD = '$/auth/refresh'
+
+/** Envelope metadata key carrying the session token `$/auth` handed out to the sender. */
+export const SESSION_METADATA_KEY = '$session'
@@ -0,0 +1,415 @@
+import { toBytes, type Codec } from './codec'
+
+const TIMESTAMP_EXT = -1
+
+class Encoder {
+  private buffer = new Uint8Array(256)
+  private view = new DataView(this.buffer.buffer)
+  private offset = 0
+  private seen = new Set<object>()
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset)
+  }
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.buffer.length) return
+    let length = this.buffer.length * 2
+    while (length < this.offset + size) length *= 2
+    const next = new Uint8Array(length)
+    next.set(this.buffer)
+    this.buffer = next
+    this.view = new DataView(next.buffer)
+  }
+
+  private u8(value: number) {
+    this.ensure(1)
+    this.view.setUint8(this.offset++, value)
+  }
+
+  private u16(value: number) {
+    this.ensure(2)
+    this.view.setUint16(this.offset, value)
+    this.offset += 2
+  }
+
+  private u32(value: number) {
+    this.ensure(4)
+    this.view.setUint32(this.offset, value)
+    this.offset += 4
+  }
+
+  private bytes(bytes: Uint8Array) {
+    this.ensure(bytes.length)
+    this.buffer.set(bytes, this.offset)
+    this.offset += bytes.length
+  }
+
+  encode(value: unknown): void {
+    if (value === null || value === undefined) return this.u8(0xc0)
+    if (value === false) return this.u8(0xc2)
+    if (value === true) return this.u8(0xc3)
+    if (typeof value === 'number') return this.number(value)
+    if (typeof value === 'bigint') return this.bigint(value)
+    if (typeof value === 'string') return this.string(value)
+    if (typeof value !== 'object') {
+      throw new TypeError(`Cannot encode ${typeof value} as MessagePack`)
+    }
+
+    if (this.seen.has(value)) {
+      throw new TypeError('Cannot encode circular structure')
+    }
+    this.seen.add(value)
+    try {
+      this.object(value)
+    } finally {
+      this.seen.delete(value)
+    }
+  }
+
+  /**
+   * Integers up to 32 bits use the compact formats; larger numbers are float64, which is
+   * exact for safe integers. The 64-bit integer formats are reserved for BigInt.
+   */
+  private number(value: number) {
+    if (
+      !Number.isInteger(value) ||
+      Object.is(value, -0) ||
+      value > 0xffffffff ||
+      value < -0x80000000
+    ) {
+      this.u8(0xcb)
+      this.ensure(8)
+      this.view.setFloat64(this.offset, value)
+      this.offset += 8
+    } else if (value >= 0) {
+      if (value < 0x80) {
+        this.u8(value)
+      } else if (value <= 0xff) {
+        this.u8(0xcc)
+        this.u8(value)
+      } else if (value <= 0xffff) {
+        this.u8(0xcd)
+        this.u16(value)
+      } else {
+        this.u8(0xce)
+        this.u32(value)
+      }
+    } else if (value >= -0x20) {
+      this.u8(value & 0xff)
+    } else if (value >= -0x80) {
+      this.u8(0xd0)
+      this.u8(value & 0xff)
+    } else if (value >= -0x8000) {
+      this.u8(0xd1)
+      this.u16(value & 0xffff)
+    } else {
+      this.u8(0xd2)
+      this.u32(value >>> 0)
+    }
+  }
+
+  private bigint(value: bigint) {
+    this.ensure(9)
+    if (value >= 0n) {
+      if (value > 0xffffffffffffffffn) throw new RangeError('BigInt exceeds 64 bits')
+      this.view.setUint8(this.offset, 0xcf)
+      this.view.setBigUint64(this.offset + 1, value)
+    } else {
+      if (value < -0x8000000000000000n) throw new RangeError('BigInt exceeds 64 bits')
+      this.view.setUint8(this.offset, 0xd3)
+      this.view.setBigInt64(this.offset + 1, value)
+    }
+    this.offset += 9
+  }
+
+  private string(value: string) {
+    const bytes = new TextEncoder().encode(value)
+    const length = bytes.length
+    if (length < 0x20) {
+      this.u8(0xa0 | length)
+    } else if (length <= 0xff) {
+      this.u8(0xd9)
+      this.u8(length)
+    } else if (length <= 0xffff) {
+      this.u8(0xda)
+      this.u16(length)
+    } else {
+      this.u8(0xdb)
+      this.u32(length)
+    }
+    this.bytes(bytes)
+  }
+
+  private binary(bytes: Uint8Array) {
+    const length = bytes.length
+    if (length <= 0xff) {
+      this.u8(0xc4)
+      this.u8(length)
+    } else if (length <= 0xffff) {
+      this.u8(0xc5)
+      this.u16(length)
+    } else {
+      this.u8(0xc6)
+      this.u32(length)
+    }
+    this.bytes(bytes)
+  }
+
+  private arrayHeader(length: number) {
+    if (length < 0x10) {
+      this.u8(0x90 | length)
+    } else if (length <= 0xffff) {
+      this.u8(0xdc)
+      this.u16(length)
+    } else {
+      this.u8(0xdd)
+      this.u32(length)
+    }
+  }
+
+  private mapHeader(length: number) {
+    if (length < 0x10) {
+      this.u8(0x80 | length)
+    } else if (length <= 0xffff) {
+      this.u8(0xde)
+      this.u16(length)
+    } else {
+      this.u8(0xdf)
+      this.u32(length)
+    }
+  }
+
+  private object(value: object) {
+    if (Array.isArray(value) || value instanceof Set) {
+      const items = Array.from(value)
+      this.arrayHeader(items.length)
+      items.forEach((item) => this.encode(item))
+    } else if (value instanceof ArrayBuffer) {
+      this.binary(new Uint8Array(value))
+    } else if (ArrayBuffer.isView(value)) {
+      this.binary(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+    } else if (value instanceof Date) {
+      this.timestamp(value)
+    } else {
+      // Like JSON, properties holding undefined are left out instead of turning into null
+      const entries =
+        value instanceof Map
+          ? Array.from(value)
+          : Object.entries(value).filter(([, item]) => item !== undefined)
+      this.mapHeader(entries.length)
+      entries.forEach(([key, item]) => {
+        this.encode(key)
+        this.encode(item)
+      })
+    }
+  }
+
+  /** The timestamp 96 extension: uint32 nanoseconds followed by int64 seconds. */
+  private timestamp(date: Date) {
+    const millis = date.getTime()
+    if (Number.isNaN(millis)) throw new RangeError('Cannot encode an invalid Date')
+    const seconds = Math.floor(millis / 1000)
+    this.u8(0xc7)
+    this.u8(12)
+    this.u8(TIMESTAMP_EXT & 0xff)
+    this.u32((millis - seconds * 1000) * 1e6)
+    this.ensure(8)
+    this.view.setBigInt64(this.offset, BigInt(seconds))
+    this.offset += 8
+  }
+}
+
+class Decoder {
+  private view: DataView
+  private offset = 0
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  decodeAll(): unknown {
+    const value = this.decode()
+    if (this.offset !== this.bytes.length) {
+      throw new RangeError('Unexpected trailing bytes in MessagePack data')
+    }
+    return value
+  }
+
+  private u8() {
+    return this.view.getUint8(this.offset++)
+  }
+
+  private u16() {
+    const value = this.view.getUint16(this.offset)
+    this.offset += 2
+    return value
+  }
+
+  private u32() {
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data')
+    }
+    const bytes = this.bytes.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+
+  private decode(): unknown {
+    const type = this.u8()
+
+    if (type < 0x80) return type
+    if (type >= 0xe0) return type - 0x100
+    if ((type & 0xf0) === 0x80) return this.map(type & 0x0f)
+    if ((type & 0xf0) === 0x90) return this.array(type & 0x0f)
+    if ((type & 0xe0) === 0xa0) return this.string(type & 0x1f)
+
+    switch (type) {
+      case 0xc0:
+        return null
+      case 0xc2:
+        return false
+      case 0xc3:
+        return true
+      case 0xc4:
+        return this.take(this.u8()).slice()
+      case 0xc5:
+        return this.take(this.u16()).slice()
+      case 0xc6:
+        return this.take(this.u32()).slice()
+      case 0xc7:
+        return this.ext(this.u8())
+      case 0xc8:
+        return this.ext(this.u16())
+      case 0xc9:
+        return this.ext(this.u32())
+      case 0xca: {
+        const value = this.view.getFloat32(this.offset)
+        this.offset += 4
+        return value
+      }
+      case 0xcb: {
+        const value = this.view.getFloat64(this.offset)
+        this.offset += 8
+        return value
+      }
+      case 0xcc:
+        return this.u8()
+      case 0xcd:
+        return this.u16()
+      case 0xce:
+        return this.u32()
+      case 0xcf: {
+        const value = this.view.getBigUint64(this.offset)
+        this.offset += 8
+        return value
+      }
+      case 0xd0:
+        return this.view.getInt8(this.offset++)
+      case 0xd1: {
+        const value = this.view.getInt16(this.offset)
+        this.offset += 2
+        return value
+      }
+      case 0xd2: {
+        const value = this.view.getInt32(this.offset)
+        this.offset += 4
+        return value
+      }
+      case 0xd3: {
+        const value = this.view.getBigInt64(this.offset)
+        this.offset += 8
+        return value
+      }
+      case 0xd4:
+        return this.ext(1)
+      case 0xd5:
+        return this.ext(2)
+      case 0xd6:
+        return this.ext(4)
+      case 0xd7:
+        return this.ext(8)
+      case 0xd8:
+        return this.ext(16)
+      case 0xd9:
+        return this.string(this.u8())
+      case 0xda:
+        return this.string(this.u16())
+      case 0xdb:
+        return this.string(this.u32())
+      case 0xdc:
+        return this.array(this.u16())
+      case 0xdd:
+        return this.array(this.u32())
+      case 0xde:
+        return this.map(this.u16())
+      case 0xdf:
+        return this.map(this.u32())
+      default:
+        throw new TypeError(`Invalid MessagePack type byte: 0x${type.toString(16)}`)
+    }
+  }
+
+  private string(length: number) {
+    return new TextDecoder().decode(this.take(length))
+  }
+
+  private array(length: number) {
+    const items: unknown[] = []
+    for (let i = 0; i < length; i++) items.push(this.decode())
+    return items
+  }
+
+  /**
+   * Maps with string keys become plain objects, others `Map`s.
+   */
+  private map(length: number) {
+    const entries: [unknown, unknown][] = []
+    for (let i = 0; i < length; i++) entries.push([this.decode(), this.decode()])
+    return entries.every(([key]) => typeof key === 'string')
+      ? Object.fromEntries(entries)
+      : new Map(entries)
+  }
+
+  private ext(length: number) {
+    const type = this.view.getInt8(this.offset++)
+    const data = this.take(length)
+    if (type !== TIMESTAMP_EXT) {
+      throw new TypeError(`Unsupported MessagePack extension type: ${type}`)
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    if (length === 4) return new Date(view.getUint32(0) * 1000)
+    if (length === 8) {
+      const nanoseconds = view.getUint32(0) >>> 2
+      const seconds = (view.getUint32(0) & 0x3) * 0x100000000 + view.getUint32(4)
+      return new Date(seconds * 1000 + nanoseconds / 1e6)
+    }
+    if (length === 12) {
+      return new Date(Number(view.getBigInt64(4)) * 1000 + view.getUint32(0) / 1e6)
+    }
+    throw new TypeError(`Invalid MessagePack timestamp length: ${length}`)
+  }
+}
+
+/**
+ * A MessagePack codec. `Date` uses the timestamp extension, `BigInt` the 64-bit integer
+ * formats and `Set` an array. `ArrayBuffer` and typed arrays are sent as binary and decoded
+ * as `Uint8Array`. `undefined` becomes `null`.
+ */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  type: 'binary',
+  encode: (value) => {
+    const encoder = new Encoder()
+    encoder.encode(value)
+    return encoder.finish()
+  },
+  decode: (data) => new Decoder(toBytes(data)).decodeAll(),
+}
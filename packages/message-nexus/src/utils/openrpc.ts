@@ -0,0 +1,64 @@
+import { OPENRPC_VERSION } from './constants'
+import { toJsonSchema, type StandardSchema } from './schema'
+
+export interface OpenRpcContentDescriptor {
+  name: string
+  required?: boolean
+  schema: Record<string, unknown>
+}
+
+export interface OpenRpcMethod {
+  name: string
+  description?: string
+  /** Nexus requests carry a single params value, described as one positional param. */
+  paramStructure: 'by-position'
+  params: OpenRpcContentDescriptor[]
+  result?: OpenRpcContentDescriptor
+  /** Set on methods served by `handleStream()`; call them with `stream()`. */
+  'x-stream'?: boolean
+}
+
+export interface OpenRpcDocument {
+  openrpc: string
+  info: { title: string; version: string; description?: string }
+  methods: OpenRpcMethod[]
+}
+
+export interface MethodDescription {
+  name: string
+  description?: string
+  paramsSchema?: StandardSchema
+  resultSchema?: StandardSchema
+  stream?: boolean
+}
+
+/**
+ * Builds an OpenRPC document. Methods without a JSON-Schema-capable schema get the
+ * empty schema `{}`, which accepts anything.
+ */
+export function buildOpenRpcDocument(
+  info: OpenRpcDocument['info'],
+  methods: MethodDescription[],
+): OpenRpcDocument {
+  return {
+    openrpc: OPENRPC_VERSION,
+    info,
+    methods: methods.map((method) => {
+      const entry: OpenRpcMethod = {
+        name: method.name,
+        paramStructure: 'by-position',
+        params: [
+          {
+            name: 'params',
+            required: !!method.paramsSchema,
+            schema: toJsonSchema(method.paramsSchema, 'input') ?? {},
+          },
+        ],
+        result: { name: 'result', schema: toJsonSchema(method.resultSchema, 'output') ?? {} },
+      }
+      if (method.description) entry.description = method.description
+      if (method.stream) entry['x-stream'] = true
+      return entry
+    }),
+  }
+}
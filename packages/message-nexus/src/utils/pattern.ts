@@ -0,0 +1,29 @@
+/**
+ * Method name, pattern or regular expression. In string patterns `*` matches any run of
+ * characters, dots included; a string without `*` matches only itself.
+ */
+export type MethodPattern = string | RegExp
+
+/**
+ * Matches `value` against a pattern. The wildcard dialect shared by handlers, notification
+ * listeners, router policies and access rules; topics match by segment, see `matchTopic()`.
+ */
+export function matchesPattern(value: string, pattern: MethodPattern): boolean {
+  if (pattern instanceof RegExp) return pattern.test(value)
+  const parts = pattern.split('*')
+  if (parts.length === 1) return value === pattern
+
+  const first = parts[0]
+  const last = parts[parts.length - 1]
+  const end = value.length - last.length
+  if (end < first.length || !value.startsWith(first) || !value.endsWith(last)) return false
+
+  // Taking the earliest match of each literal part leaves the most room for the rest.
+  let index = first.length
+  for (const part of parts.slice(1, -1)) {
+    const found = value.indexOf(part, index)
+    if (found === -1 || found + part.length > end) return false
+    index = found + part.length
+  }
+  return true
+}
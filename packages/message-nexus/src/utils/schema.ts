@@ -0,0 +1,92 @@
+import { NexusError } from '../errors'
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by zod, valibot,
+ * arktype and others. Validators without native support need a small adapter.
+ */
+export interface StandardSchema<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined
+  }
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+}
+
+/**
+ * The Standard JSON Schema extension, implemented by schemas that can describe themselves
+ * as JSON Schema (e.g. zod 4, arktype). Used for `rpc.discover` documents.
+ */
+export interface StandardJsonSchema {
+  readonly '~standard': {
+    readonly jsonSchema?: {
+      readonly input: (options: { readonly target: string }) => Record<string, unknown>
+      readonly output: (options: { readonly target: string }) => Record<string, unknown>
+    }
+  }
+}
+
+/**
+ * A validation issue as sent in `error.data.issues`. Paths are plain keys so they survive
+ * cloning and JSON.
+ */
+export interface SchemaIssue {
+  message: string
+  path: (string | number)[]
+}
+
+function toSchemaIssue(issue: StandardSchemaIssue): SchemaIssue {
+  const path = (issue.path ?? []).map((segment) => {
+    const key = typeof segment === 'object' ? segment.key : segment
+    return typeof key === 'number' ? key : String(key)
+  })
+  return { message: issue.message, path }
+}
+
+/**
+ * Validates `value` and returns the schema's output, which may differ from the input
+ * (defaults, coercion). Throws a NexusError with `data.issues` when validation fails.
+ */
+export async function validateSchema<T>(
+  schema: StandardSchema<unknown, T>,
+  value: unknown,
+  message: string,
+  code: number,
+): Promise<T> {
+  const result = await schema['~standard'].validate(value)
+  if (result.issues) {
+    const issues = result.issues.map(toSchemaIssue)
+    throw new NexusError(`${message}: ${issues[0]?.message ?? 'validation failed'}`, code, {
+      issues,
+    })
+  }
+  return result.value
+}
+
+/**
+ * Converts a schema to JSON Schema (draft-07, as used by OpenRPC) when it supports the
+ * Standard JSON Schema extension. Returns undefined otherwise or when conversion fails.
+ */
+export function toJsonSchema(
+  schema: StandardSchema | undefined,
+  io: 'input' | 'output',
+): Record<string, unknown> | undefined {
+  const converter = (schema as StandardJsonSchema | undefined)?.['~standard'].jsonSchema
+  if (!converter) return undefined
+  try {
+    return converter[io]({ target: 'draft-07' })
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Collects the public method names of an object or class instance: its own methods and
+ * those of its class. Inherited methods are only included with `inherited`, so extending a
+ * base class (or `EventTarget`) does not publish its methods by accident. `Object.prototype`
+ * is never walked. Names starting with `_`, the constructor and accessors are skipped.
+ */
+export function getPublicMethodNames(service: object, inherited = false): string[] {
+  const names = new Set<string>()
+  let current: object | null = service
+  let depth = 0
+
+  while (current && current !== Object.prototype && (inherited || depth < 2)) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      if (name === 'constructor' || name.startsWith('_')) continue
+      const descriptor = Object.getOwnPropertyDescriptor(current, name)
+      if (descriptor && typeof descriptor.value === 'function') {
+        names.add(name)
+      }
+    }
+    current = Object.getPrototypeOf(current)
+    depth++
+  }
+
+  return [...names]
+}
@@ -0,0 +1,34 @@
+/**
+ * Validates a subscription pattern: dot-separated segments where `*` matches exactly one
+ * segment and a trailing `#` matches any number of remaining segments, including none.
+ */
+export function assertTopicPattern(pattern: string): void {
+  const segments = pattern.split('.')
+  const invalid =
+    !pattern ||
+    segments.some((segment) => segment === '') ||
+    segments.some((segment, index) => segment === '#' && index !== segments.length - 1) ||
+    segments.some((segment) => segment !== '*' && segment !== '#' && /[*#]/.test(segment))
+  if (invalid) {
+    throw new TypeError(`Invalid topic pattern: ${pattern}`)
+  }
+}
+
+export function assertTopic(topic: string): void {
+  if (!topic || /[*#]/.test(topic) || topic.split('.').some((segment) => segment === '')) {
+    throw new TypeError(`Invalid topic: ${topic}`)
+  }
+}
+
+export function matchTopic(pattern: string, topic: string): boolean {
+  const patternSegments = pattern.split('.')
+  const topicSegments = topic.split('.')
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i]
+    if (segment === '#') return true
+    if (i >= topicSegments.length) return false
+    if (segment !== '*' && segment !== topicSegments[i]) return false
+  }
+  return patternSegments.length === topicSegments.length
+}
@@ -0,0 +1,20 @@
+const transferCache = new WeakMap<object, Transferable[]>()
+
+/**
+ * Marks a handler result so its transferables are moved instead of cloned when replying.
+ * Returns the value unchanged so the handler keeps its declared result type.
+ */
+export function transfer<T extends object>(value: T, transferables: Transferable[]): T {
+  transferCache.set(value, transferables)
+  return value
+}
+
+/**
+ * Returns (and forgets) the transfer list registered for a value via `transfer()`.
+ */
+export function takeTransferables(value: unknown): Transferable[] | undefined {
+  if (typeof value !== 'object' || value === null) return undefined
+  const transferables = transferCache.get(value)
+  transferCache.delete(value)
+  return transferables
+}